@@ -0,0 +1,107 @@
+import { MAX_SAMPLE_RATE, type QuantizerSettings, type ReconstructionMode } from '@shared/audio';
+import { DEFAULT_QUANTIZER_SETTINGS, Quantizer, SINC_RADIUS, reconstruct } from '@shared/dsp';
+
+// Globals provided by AudioWorkletGlobalScope (not part of the DOM lib)
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+}
+
+export type BitcrusherMessage =
+  | { type: 'reconstruction'; mode: ReconstructionMode }
+  | { type: 'quantizer'; settings: QuantizerSettings };
+
+const KERNEL_SIZE = SINC_RADIUS * 2 + 1;
+
+class BitcrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'targetSampleRate', defaultValue: 8000, minValue: 0.1, maxValue: MAX_SAMPLE_RATE, automationRate: 'k-rate' },
+      { name: 'bitDepth', defaultValue: 8, minValue: 1, maxValue: 32, automationRate: 'k-rate' },
+    ];
+  }
+
+  private mode: ReconstructionMode = 'sinc';
+  private quantizerSettings: QuantizerSettings = DEFAULT_QUANTIZER_SETTINGS;
+  // Rebuilt whenever the bit depth or quantizer settings change
+  private quantizer: Quantizer | null = null;
+  private quantizerBitDepth = 0;
+  // Number of samples quantized so far, used to seed dither
+  private sampleIndex = 0;
+  private phaseAccumulator = 0;
+  // Most recent quantized samples, oldest first, used for reconstruction
+  private history = new Float32Array(KERNEL_SIZE);
+  private filled = 0;
+
+  constructor() {
+    super();
+    this.port.onmessage = (event: MessageEvent<BitcrusherMessage>) => {
+      if (event.data.type === 'reconstruction') {
+        this.mode = event.data.mode;
+      } else if (event.data.type === 'quantizer') {
+        this.quantizerSettings = event.data.settings;
+        this.quantizer = null;
+      }
+    };
+  }
+
+  private quantize(value: number, bitDepth: number): number {
+    if (!this.quantizer || this.quantizerBitDepth !== bitDepth) {
+      this.quantizer = new Quantizer(bitDepth, this.quantizerSettings);
+      this.quantizerBitDepth = bitDepth;
+    }
+    return this.quantizer.quantizeValue(value, this.sampleIndex++);
+  }
+
+  private pushSample(value: number) {
+    this.history.copyWithin(0, 1);
+    this.history[KERNEL_SIZE - 1] = value;
+    this.filled = Math.min(KERNEL_SIZE, this.filled + 1);
+  }
+
+  private reconstruct(fracPos: number): number {
+    if (this.filled === 0) return 0;
+
+    // Zero-order hold is also used while the sinc kernel is still filling
+    const mode = this.filled < KERNEL_SIZE ? 'hold' : this.mode;
+    const centerIdx = KERNEL_SIZE - SINC_RADIUS - 1;
+    return reconstruct(this.history, mode === 'hold' ? KERNEL_SIZE - 1 : centerIdx + fracPos, mode);
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const input = inputs[0]?.[0];
+    const output = outputs[0][0];
+
+    const targetSampleRate = parameters.targetSampleRate[0];
+    const bitDepth = Math.round(parameters.bitDepth[0]);
+    const downsampleRatio = sampleRate / targetSampleRate;
+
+    for (let i = 0; i < output.length; i++) {
+      const inputSample = input ? input[i] : 0;
+
+      if (targetSampleRate < sampleRate) {
+        this.phaseAccumulator += 1.0;
+
+        // Capture and quantize a new sample once per downsample period
+        if (this.phaseAccumulator >= downsampleRatio) {
+          this.phaseAccumulator -= downsampleRatio;
+          // Catch up immediately if the target rate was raised mid-period
+          if (this.phaseAccumulator >= downsampleRatio) {
+            this.phaseAccumulator %= downsampleRatio;
+          }
+          this.pushSample(this.quantize(inputSample, bitDepth));
+        }
+
+        output[i] = this.reconstruct(this.phaseAccumulator / downsampleRatio);
+      } else {
+        // When the target rate is at or above the context rate, just quantize without resampling
+        output[i] = this.quantize(inputSample, bitDepth);
+      }
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('bitcrusher', BitcrusherProcessor);
@@ -0,0 +1,48 @@
+export interface UploadedAudio {
+  name: string;
+  buffer: AudioBuffer;
+  // Mono mixdown of every channel, used by the canvases
+  samples: Float32Array;
+  sampleRate: number;
+  duration: number;
+}
+
+export const ACCEPTED_AUDIO_TYPES = '.wav,.mp3,.ogg,audio/wav,audio/x-wav,audio/mpeg,audio/ogg';
+
+function mixToMono(buffer: AudioBuffer): Float32Array {
+  if (buffer.numberOfChannels === 1) {
+    return buffer.getChannelData(0);
+  }
+
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Decodes a WAV/MP3/OGG file with the browser's codecs. Rejects with the
+ * decoder's error if the format is unsupported or the file is corrupt.
+ */
+export async function decodeAudioFile(file: File): Promise<UploadedAudio> {
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass();
+
+  try {
+    const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+
+    return {
+      name: file.name,
+      buffer,
+      samples: mixToMono(buffer),
+      sampleRate: buffer.sampleRate,
+      duration: buffer.duration,
+    };
+  } finally {
+    ctx.close().catch(() => {});
+  }
+}
@@ -0,0 +1,55 @@
+import { QuantizerSettings, isPeriodicWaveform } from '@shared/audio';
+import { DEFAULT_QUANTIZER_SETTINGS, encode, quantize, sample } from '@shared/dsp';
+import { encodeWav } from '@shared/wav';
+import { SourceSettings, getSourceSignal } from './source-signal';
+
+// Companded audio is expanded and stored as linear PCM at this depth, as a G.711 decoder would
+const EXPANDED_BIT_DEPTH = 16;
+// Mid-tread rounding matches the two's complement grid of a PCM file
+const LINEAR_PCM_SETTINGS = { ...DEFAULT_QUANTIZER_SETTINGS, characteristic: 'mid-tread', rounding: 'round' } as const;
+
+interface ExportWavOptions {
+  sampleRate: number;
+  bitDepth: number;
+  source: SourceSettings;
+  quantizerSettings: QuantizerSettings;
+  durationSeconds: number;
+}
+
+/**
+ * Renders the current source through the same sampling and quantization path
+ * as the canvases and downloads it as a WAV at the chosen rate and depth.
+ * μ-law and A-law codewords are not linear PCM, so companded exports are
+ * expanded to 16-bit linear samples instead.
+ */
+export function exportWav({
+  sampleRate,
+  bitDepth,
+  source,
+  quantizerSettings,
+  durationSeconds,
+}: ExportWavOptions) {
+  const signal = getSourceSignal(source, sampleRate);
+  const samples = sample(signal, sampleRate, Math.round(durationSeconds * sampleRate));
+  const companded = quantizerSettings.companding !== 'none';
+  const fileBitDepth = companded ? EXPANDED_BIT_DEPTH : bitDepth;
+  const codes = companded
+    ? encode(quantize(samples, bitDepth, quantizerSettings), EXPANDED_BIT_DEPTH, LINEAR_PCM_SETTINGS)
+    : encode(samples, bitDepth, quantizerSettings);
+  const blob = new Blob([encodeWav(codes, sampleRate, fileBitDepth)], { type: 'audio/wav' });
+
+  const { uploadedAudio, frequency, waveformType, oscillatorMode } = source;
+  const bandLimitedSuffix = oscillatorMode === 'band-limited' && isPeriodicWaveform(waveformType) ? '-bandlimited' : '';
+  const sourceName = uploadedAudio
+    ? uploadedAudio.name.replace(/\.[^.]+$/, '')
+    : `${waveformType}-${frequency}Hz${bandLimitedSuffix}`;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  const compandingSuffix = companded ? `-${quantizerSettings.companding}` : '';
+  link.download = `${sourceName}-${Math.round(sampleRate)}Hz-${bitDepth}bit${compandingSuffix}.wav`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
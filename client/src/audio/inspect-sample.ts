@@ -0,0 +1,61 @@
+import { BinaryFormat, QuantizerSettings } from '@shared/audio';
+import { Quantizer, getLsbSize, levelToValue } from '@shared/dsp';
+import { formatCodeword } from '@shared/codeword';
+import { MAX_VIEW_SAMPLES } from '@/lib/timeline';
+import { SourceSettings, getSourceSignal } from './source-signal';
+
+export interface SampleDetails {
+  index: number;
+  // Seconds from the start of the timeline
+  time: number;
+  analogValue: number;
+  level: number;
+  quantizedValue: number;
+  // quantized - analog, in LSBs
+  errorLsb: number;
+  codeword: string;
+}
+
+interface InspectSampleOptions {
+  sampleRate: number;
+  bitDepth: number;
+  source: SourceSettings;
+  quantizerSettings: QuantizerSettings;
+  binaryFormat: BinaryFormat;
+  // First sample of the current view
+  firstSample: number;
+}
+
+/**
+ * Everything the sampler and quantizer produce for one sample. Noise shaping
+ * depends on earlier samples, so quantization starts from the first sample of
+ * the view like the canvases do.
+ */
+export function inspectSample(index: number, options: InspectSampleOptions): SampleDetails {
+  const { sampleRate, bitDepth, source, quantizerSettings, firstSample } = options;
+  const signal = getSourceSignal(source, sampleRate);
+  const quantizer = new Quantizer(bitDepth, quantizerSettings);
+  // Samples in view are quantized ahead of the inspected one to match the canvases' noise shaping state
+  const start = index >= firstSample && index - firstSample < MAX_VIEW_SAMPLES ? firstSample : index;
+
+  // Rounded to float32 like sample(), so levels match the canvases exactly
+  const valueAt = (i: number) => Math.fround(signal(i / sampleRate));
+
+  let level = 0;
+  for (let i = start; i <= index; i++) {
+    level = quantizer.quantizeToLevel(valueAt(i), i);
+  }
+
+  const analogValue = valueAt(index);
+  const quantizedValue = levelToValue(level, bitDepth, quantizerSettings);
+
+  return {
+    index,
+    time: index / sampleRate,
+    analogValue,
+    level,
+    quantizedValue,
+    errorLsb: (quantizedValue - analogValue) / getLsbSize(bitDepth, quantizerSettings.characteristic),
+    codeword: formatCodeword(level, bitDepth, options.binaryFormat, quantizerSettings.characteristic),
+  };
+}
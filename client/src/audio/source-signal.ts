@@ -0,0 +1,41 @@
+import { HarmonicPartial, InputSettings, OscillatorMode, TestSignalSettings, WaveformType, isPeriodicWaveform } from '@shared/audio';
+import { Signal, bandLimitedSignal, bufferSignal, inputSignal, waveformSignal } from '@shared/dsp';
+import { testSignal } from '@shared/test-signals';
+import type { UploadedAudio } from './decode-audio-file';
+
+export interface SourceSettings {
+  uploadedAudio: UploadedAudio | null;
+  frequency: number;
+  waveformType: WaveformType;
+  // Partials of the 'custom' waveform
+  harmonics: HarmonicPartial[];
+  oscillatorMode: OscillatorMode;
+  // Parameters of the chirp, DC and two-tone test signals
+  testSignal: TestSignalSettings;
+  // Gain, DC offset and phase applied to the source
+  input: InputSettings;
+}
+
+function generatedSignal(source: SourceSettings, sampleRate: number): Signal {
+  const { frequency, waveformType, harmonics, oscillatorMode } = source;
+  if (!isPeriodicWaveform(waveformType)) {
+    return testSignal(waveformType, frequency, source.testSignal, sampleRate);
+  }
+  return oscillatorMode === 'band-limited'
+    ? bandLimitedSignal(frequency, waveformType, sampleRate / 2, harmonics)
+    : waveformSignal(frequency, waveformType, harmonics);
+}
+
+/**
+ * The signal currently feeding the crusher: the uploaded file when one is
+ * loaded, otherwise the generated waveform or test signal, at the input gain
+ * and offset. A band-limited waveform keeps only the partials below the
+ * Nyquist frequency of `sampleRate`, the rate it is about to be sampled at.
+ */
+export function getSourceSignal(source: SourceSettings, sampleRate: number): Signal {
+  const { uploadedAudio, frequency, input } = source;
+  if (uploadedAudio) {
+    return inputSignal(bufferSignal(uploadedAudio.samples, uploadedAudio.sampleRate), input, null);
+  }
+  return inputSignal(generatedSignal(source, sampleRate), input, frequency);
+}
@@ -0,0 +1,139 @@
+import { FormEvent, useState } from 'react';
+import { LogIn, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
+
+// apiRequest errors read "<status>: <body>", where the body is usually { message }
+function getErrorMessage(err: Error): string {
+  const body = err.message.replace(/^\d+: /, '');
+  try {
+    return JSON.parse(body).message ?? body;
+  } catch {
+    return body;
+  }
+}
+
+/**
+ * Sign in / register dialog, or the signed-in user with a sign out button.
+ */
+export function AccountMenu() {
+  const { user, loginMutation, registerMutation, logoutMutation } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setPassword('');
+      loginMutation.reset();
+      registerMutation.reset();
+    }
+  };
+
+  const handleLogin = (e: FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username, password }, { onSuccess: () => handleOpenChange(false) });
+  };
+
+  const handleRegister = (e: FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate({ username, password }, { onSuccess: () => handleOpenChange(false) });
+  };
+
+  if (user) {
+    return (
+      <div className="flex items-center gap-2">
+        <div className="text-right">
+          <div className="text-xs text-muted-foreground capitalize">{user.role}</div>
+          <div className="text-sm text-foreground" data-testid="text-username">{user.username}</div>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
+          aria-label="Sign out"
+          data-testid="button-logout"
+        >
+          <LogOut className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const credentialFields = (prefix: string) => (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor={`${prefix}-username`}>Username</Label>
+        <Input
+          id={`${prefix}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          data-testid={`input-${prefix}-username`}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${prefix}-password`}>Password</Label>
+        <Input
+          id={`${prefix}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={prefix === 'register' ? 'new-password' : 'current-password'}
+          data-testid={`input-${prefix}-password`}
+        />
+      </div>
+    </>
+  );
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} data-testid="button-sign-in">
+        <LogIn className="w-4 h-4 mr-2" />
+        Sign in
+      </Button>
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Account</DialogTitle>
+            <DialogDescription>Sign in to keep your presets and lesson progress.</DialogDescription>
+          </DialogHeader>
+          <Tabs defaultValue="login">
+            <TabsList className="grid grid-cols-2 w-full">
+              <TabsTrigger value="login">Sign in</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <form className="space-y-4 pt-2" onSubmit={handleLogin}>
+                {credentialFields('login')}
+                {loginMutation.error && (
+                  <p className="text-xs text-destructive" role="alert">{getErrorMessage(loginMutation.error)}</p>
+                )}
+                <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-login">
+                  Sign in
+                </Button>
+              </form>
+            </TabsContent>
+            <TabsContent value="register">
+              <form className="space-y-4 pt-2" onSubmit={handleRegister}>
+                {credentialFields('register')}
+                {registerMutation.error && (
+                  <p className="text-xs text-destructive" role="alert">{getErrorMessage(registerMutation.error)}</p>
+                )}
+                <Button type="submit" className="w-full" disabled={registerMutation.isPending} data-testid="button-register">
+                  Create account
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
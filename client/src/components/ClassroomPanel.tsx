@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Info, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { ClassroomState } from '@/hooks/use-classroom';
+import { JOIN_CODE_LENGTH } from '@shared/classroom';
+
+interface ClassroomPanelProps {
+  state: ClassroomState;
+  followTeacher: boolean;
+  onHost: () => void;
+  onJoin: (code: string) => void;
+  onLeave: () => void;
+  onFollowTeacherChange: (value: boolean) => void;
+}
+
+/**
+ * Hosting or joining a classroom, where students' visualizers follow the teacher's.
+ */
+export function ClassroomPanel({ state, followTeacher, onHost, onJoin, onLeave, onFollowTeacherChange }: ClassroomPanelProps) {
+  const [code, setCode] = useState('');
+  const { role, connected } = state;
+
+  const status = !connected
+    ? 'Reconnecting…'
+    : role === 'teacher'
+      ? `${state.studentCount} ${state.studentCount === 1 ? 'student' : 'students'} connected`
+      : state.teacherConnected
+        ? 'Teacher connected'
+        : 'Waiting for the teacher…';
+
+  return (
+    <Card className="p-4 space-y-3 bg-card" data-testid="card-classroom">
+      <div className="flex items-center gap-2">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-foreground">
+          Classroom
+        </h3>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Info className="w-3 h-3 text-muted-foreground" data-testid="info-classroom" />
+          </TooltipTrigger>
+          <TooltipContent>
+            <p className="text-xs max-w-xs">
+              Host a classroom to push your settings live to every student who joins with the code. Students can stop following to explore on their own.
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+
+      {role === null ? (
+        <div className="space-y-2">
+          <Button variant="outline" className="w-full" onClick={onHost} data-testid="button-host-classroom">
+            <Users className="w-4 h-4 mr-2" />
+            Host a Classroom
+          </Button>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (code.trim()) onJoin(code);
+            }}
+          >
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="Join code"
+              maxLength={JOIN_CODE_LENGTH}
+              className="font-mono uppercase"
+              data-testid="input-classroom-code"
+            />
+            <Button type="submit" variant="outline" disabled={!code.trim()} data-testid="button-join-classroom">
+              Join
+            </Button>
+          </form>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-muted-foreground">
+              {role === 'teacher' ? 'Join Code' : 'Classroom'}
+            </span>
+            <span className="text-lg font-mono font-semibold tracking-widest text-foreground" data-testid="text-classroom-code">
+              {state.code ?? '······'}
+            </span>
+          </div>
+          <p className="text-xs text-muted-foreground" aria-live="polite" data-testid="text-classroom-status">
+            {status}
+          </p>
+          {role === 'student' && (
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-medium text-foreground" htmlFor="switch-follow-teacher">
+                Follow Teacher
+              </label>
+              <Switch
+                id="switch-follow-teacher"
+                checked={followTeacher}
+                onCheckedChange={onFollowTeacherChange}
+                data-testid="switch-follow-teacher"
+              />
+            </div>
+          )}
+          <Button variant="outline" className="w-full" onClick={onLeave} data-testid="button-leave-classroom">
+            {role === 'teacher' ? 'End Classroom' : 'Leave Classroom'}
+          </Button>
+        </div>
+      )}
+
+      {state.error && (
+        <p className="text-xs text-destructive" role="alert" data-testid="text-classroom-error">
+          {state.error}
+        </p>
+      )}
+    </Card>
+  );
+}
@@ -1,10 +1,41 @@
-import { Play, Pause, Info, AlertTriangle } from 'lucide-react';
+import { Fragment, useRef, useState } from 'react';
+import { Play, Pause, Info, AlertTriangle, FileAudio, X, ChevronLeft, ChevronRight, RotateCcw, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { Card } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { WaveformType } from '@shared/schema';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { PresetPicker } from '@/components/PresetPicker';
+import { HarmonicEditor } from '@/components/HarmonicEditor';
+import { TestSignalControls } from '@/components/TestSignalControls';
+import {
+  CompandingLaw,
+  DitherType,
+  HarmonicPartial,
+  InputSettings,
+  MAX_INPUT_GAIN_DB,
+  MAX_SAMPLE_RATE,
+  MIN_INPUT_GAIN_DB,
+  NoiseShapingType,
+  OscillatorMode,
+  OverflowMode,
+  QuantizerCharacteristic,
+  QuantizerSettings,
+  ReconstructionMode,
+  RoundingMode,
+  TestSignalSettings,
+  WaveformType,
+  isPeriodicWaveform,
+} from '@shared/audio';
+import { ShareableSettings } from '@shared/schema';
+import { firstAliasedHarmonic, getLsbSize } from '@shared/dsp';
+import type { QuantizationMetrics } from '@shared/dsp';
+import { ACCEPTED_AUDIO_TYPES, UploadedAudio } from '@/audio/decode-audio-file';
+import { cn } from '@/lib/utils';
+import { PERIODIC_WAVEFORM_LABELS, TEST_SIGNAL_LABELS } from '@/lib/waveforms';
+import type { ComparisonLayout, ComparisonSettings, ConfigSlot } from '@/lib/comparison';
 
 interface ControlPanelProps {
   sampleRate: number;
@@ -12,13 +43,41 @@ interface ControlPanelProps {
   isPlaying: boolean;
   hardwareMaxRate: number;
   waveformType: WaveformType;
+  harmonics: HarmonicPartial[];
+  oscillatorMode: OscillatorMode;
+  testSignal: TestSignalSettings;
+  input: InputSettings;
   frequency: number;
   zoomLevel: number;
+  reconstructionMode: ReconstructionMode;
+  quantizerSettings: QuantizerSettings;
+  uploadedAudio: UploadedAudio | null;
+  isDecoding: boolean;
+  metrics: QuantizationMetrics;
+  comparison: ComparisonSettings;
+  // Metrics of both configurations while comparing
+  comparisonMetrics: Record<ConfigSlot, QuantizationMetrics> | null;
+  // Snapshot of every setting, for saving as a preset
+  presetSettings: ShareableSettings;
   onSampleRateChange: (value: number) => void;
   onBitDepthChange: (value: number) => void;
   onWaveformTypeChange: (value: WaveformType) => void;
+  onHarmonicsChange: (value: HarmonicPartial[]) => void;
+  onOscillatorModeChange: (value: OscillatorMode) => void;
+  onTestSignalChange: (value: TestSignalSettings) => void;
+  onInputChange: (value: InputSettings) => void;
   onFrequencyChange: (value: number) => void;
   onZoomLevelChange: (value: number) => void;
+  onPanLeft: () => void;
+  onPanRight: () => void;
+  onResetView: () => void;
+  onReconstructionModeChange: (value: ReconstructionMode) => void;
+  onQuantizerSettingsChange: (value: QuantizerSettings) => void;
+  onComparisonChange: (value: ComparisonSettings) => void;
+  onPresetLoad: (settings: ShareableSettings) => void;
+  onAudioFileSelect: (file: File) => void;
+  onAudioFileClear: () => void;
+  onExportWav: (durationSeconds: number) => void;
   onPlayPauseToggle: () => void;
 }
 
@@ -28,18 +87,53 @@ export function ControlPanel({
   isPlaying,
   hardwareMaxRate,
   waveformType,
+  harmonics,
+  oscillatorMode,
+  testSignal,
+  input,
   frequency,
   zoomLevel,
+  reconstructionMode,
+  quantizerSettings,
+  uploadedAudio,
+  isDecoding,
+  metrics,
+  comparison,
+  comparisonMetrics,
+  presetSettings,
   onSampleRateChange,
   onBitDepthChange,
   onWaveformTypeChange,
+  onHarmonicsChange,
+  onOscillatorModeChange,
+  onTestSignalChange,
+  onInputChange,
   onFrequencyChange,
   onZoomLevelChange,
+  onPanLeft,
+  onPanRight,
+  onResetView,
+  onReconstructionModeChange,
+  onQuantizerSettingsChange,
+  onComparisonChange,
+  onPresetLoad,
+  onAudioFileSelect,
+  onAudioFileClear,
+  onExportWav,
   onPlayPauseToggle,
 }: ControlPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [exportDuration, setExportDuration] = useState('2');
+
   const quantizationLevels = Math.pow(2, bitDepth);
   const nyquistFrequency = sampleRate / 2;
-  
+  // Size of one quantization step, in full-scale units
+  const lsbSize = getLsbSize(bitDepth, quantizerSettings.characteristic);
+  const aliasedHarmonic = firstAliasedHarmonic(waveformType, frequency, nyquistFrequency, harmonics);
+  // Test signals are generated directly, so there is no oscillator mode or harmonic series
+  const periodic = isPeriodicWaveform(waveformType);
+
   const formatSampleRate = (rate: number) => {
     if (rate >= 1000) {
       return `${(rate / 1000).toFixed(1)} kHz`;
@@ -54,6 +148,11 @@ export function ControlPanel({
     return `${freq.toFixed(1)} Hz`;
   };
 
+  const formatDb = (db: number | null) => {
+    if (db === null) return '—';
+    return Number.isFinite(db) ? `${db.toFixed(1)} dB` : '∞ dB';
+  };
+
   const formatFileSize = () => {
     const bytesPerSample = Math.ceil(bitDepth / 8);
     const bytesPerSecond = sampleRate * bytesPerSample;
@@ -67,6 +166,71 @@ export function ControlPanel({
   return (
     <div className="h-full flex flex-col space-y-4 md:space-y-6 p-4 md:p-6">
       <div className="space-y-4 md:space-y-6 flex-1">
+        <PresetPicker settings={presetSettings} onLoad={onPresetLoad} />
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <label className="text-xs font-medium uppercase tracking-wide text-foreground" htmlFor="switch-comparison">
+                A/B Comparison
+              </label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Info className="w-3 h-3 text-muted-foreground" data-testid="info-comparison" />
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p className="text-xs max-w-xs">
+                    Compare two sample rate, bit depth and quantizer configurations. The controls below edit the selected one; switching what you hear is instant.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <Switch
+              id="switch-comparison"
+              checked={comparison.enabled}
+              onCheckedChange={(enabled) => onComparisonChange({ ...comparison, enabled })}
+              data-testid="switch-comparison"
+            />
+          </div>
+          {comparison.enabled && (
+            <div className="space-y-2">
+              {([
+                ['Editing', 'editing'],
+                ['Listening', 'listening'],
+              ] as const).map(([label, key]) => (
+                <div key={key} className="flex items-center justify-between">
+                  <span className="text-xs font-medium text-muted-foreground">{label}</span>
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    variant="outline"
+                    value={comparison[key]}
+                    onValueChange={(value: ConfigSlot | '') => value && onComparisonChange({ ...comparison, [key]: value })}
+                    data-testid={`toggle-comparison-${key}`}
+                  >
+                    <ToggleGroupItem value="A" className="w-10">A</ToggleGroupItem>
+                    <ToggleGroupItem value="B" className="w-10">B</ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-muted-foreground">Layout</span>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={comparison.layout}
+                  onValueChange={(value: ComparisonLayout | '') => value && onComparisonChange({ ...comparison, layout: value })}
+                  data-testid="toggle-comparison-layout"
+                >
+                  <ToggleGroupItem value="side-by-side" className="text-xs">Side by Side</ToggleGroupItem>
+                  <ToggleGroupItem value="overlay" className="text-xs">Overlay</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+            </div>
+          )}
+        </div>
+
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
@@ -92,7 +256,7 @@ export function ControlPanel({
             value={[sampleRate]}
             onValueChange={([value]) => onSampleRateChange(value)}
             min={10}
-            max={96000}
+            max={MAX_SAMPLE_RATE}
             step={10}
             className="w-full"
             aria-label="Sample rate in Hertz"
@@ -160,6 +324,7 @@ export function ControlPanel({
                 <TooltipContent>
                   <p className="text-xs max-w-xs">
                     The frequency of the tone being generated. Visualizer displays exactly 1 second of this frequency.
+                    For test signals it is where a chirp starts, the impulse rate or the first of two tones.
                   </p>
                 </TooltipContent>
               </Tooltip>
@@ -175,6 +340,7 @@ export function ControlPanel({
             max={20000}
             step={1}
             className="w-full"
+            disabled={!!uploadedAudio}
             aria-label="Frequency in Hertz"
             data-testid="slider-frequency"
           />
@@ -184,6 +350,73 @@ export function ControlPanel({
           </div>
         </div>
 
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <label className="text-xs font-medium uppercase tracking-wide text-foreground">
+                Input Level
+              </label>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Info className="w-3 h-3 text-muted-foreground" data-testid="info-input-level" />
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p className="text-xs max-w-xs">
+                    Gain, DC offset and phase of the source as it reaches the converter. Anything pushed past full scale
+                    (±1) overflows as set under Quantizer Type.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <span className="text-xl font-mono tabular-nums text-foreground" data-testid="text-input-gain">
+              {input.gainDb > 0 ? '+' : ''}{input.gainDb.toFixed(1)} dBFS
+            </span>
+          </div>
+          <Slider
+            value={[input.gainDb]}
+            onValueChange={([gainDb]) => onInputChange({ ...input, gainDb })}
+            min={MIN_INPUT_GAIN_DB}
+            max={MAX_INPUT_GAIN_DB}
+            step={0.5}
+            className="w-full"
+            aria-label="Input gain in dBFS"
+            data-testid="slider-input-gain"
+          />
+          <div className="flex items-center gap-2">
+            <span className="w-16 text-xs text-muted-foreground">DC Offset</span>
+            <Slider
+              value={[input.dcOffset]}
+              onValueChange={([dcOffset]) => onInputChange({ ...input, dcOffset })}
+              min={-1}
+              max={1}
+              step={0.01}
+              className="flex-1"
+              aria-label="DC offset"
+              data-testid="slider-dc-offset"
+            />
+            <span className="w-12 text-right text-xs font-mono tabular-nums text-foreground">
+              {input.dcOffset.toFixed(2)}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="w-16 text-xs text-muted-foreground">Phase</span>
+            <Slider
+              value={[Math.round((input.phase * 180) / Math.PI)]}
+              onValueChange={([degrees]) => onInputChange({ ...input, phase: (degrees * Math.PI) / 180 })}
+              min={0}
+              max={360}
+              step={1}
+              className="flex-1"
+              disabled={!!uploadedAudio}
+              aria-label="Phase in degrees"
+              data-testid="slider-input-phase"
+            />
+            <span className="w-12 text-right text-xs font-mono tabular-nums text-foreground">
+              {Math.round((input.phase * 180) / Math.PI)}°
+            </span>
+          </div>
+        </div>
+
         <div className="space-y-3">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
@@ -196,7 +429,7 @@ export function ControlPanel({
                 </TooltipTrigger>
                 <TooltipContent>
                   <p className="text-xs max-w-xs">
-                    Zoom in to see sample capture points more clearly.
+                    Zoom in to see sample capture points more clearly. Drag a canvas to pan, scroll to zoom around the cursor.
                   </p>
                 </TooltipContent>
               </Tooltip>
@@ -219,6 +452,18 @@ export function ControlPanel({
             <span>1x</span>
             <span>100x</span>
           </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="flex-1" onClick={onPanLeft} aria-label="Pan left" data-testid="button-pan-left">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="sm" className="flex-1" onClick={onResetView} data-testid="button-reset-view">
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+            <Button variant="outline" size="sm" className="flex-1" onClick={onPanRight} aria-label="Pan right" data-testid="button-pan-right">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
 
         <Button
@@ -251,22 +496,376 @@ export function ControlPanel({
               </TooltipTrigger>
               <TooltipContent>
                 <p className="text-xs max-w-xs">
-                  Select the shape of the waveform to visualize and sample.
+                  Select the shape of the waveform to visualize and sample. Custom builds one from harmonics of your choosing.
+                  Test signals (noise, chirps, impulses, DC and two tones) probe the converter like a bench measurement.
                 </p>
               </TooltipContent>
             </Tooltip>
           </div>
-          <Select value={waveformType} onValueChange={onWaveformTypeChange}>
+          <Select value={waveformType} onValueChange={onWaveformTypeChange} disabled={!!uploadedAudio}>
             <SelectTrigger className="w-full" data-testid="select-waveform-type">
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="sine">Sine Wave</SelectItem>
-              <SelectItem value="square">Square Wave</SelectItem>
-              <SelectItem value="triangle">Triangle Wave</SelectItem>
-              <SelectItem value="sawtooth">Sawtooth Wave</SelectItem>
+              <SelectGroup>
+                <SelectLabel>Waveforms</SelectLabel>
+                {Object.entries(PERIODIC_WAVEFORM_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectGroup>
+              <SelectSeparator />
+              <SelectGroup>
+                <SelectLabel>Test Signals</SelectLabel>
+                {Object.entries(TEST_SIGNAL_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectGroup>
             </SelectContent>
           </Select>
+          {waveformType === 'custom' && !uploadedAudio && (
+            <HarmonicEditor
+              harmonics={harmonics}
+              frequency={frequency}
+              sampleRate={sampleRate}
+              onChange={onHarmonicsChange}
+            />
+          )}
+          {!periodic && !uploadedAudio && (
+            <TestSignalControls type={waveformType} settings={testSignal} onChange={onTestSignalChange} />
+          )}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium text-muted-foreground">Oscillator</span>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Info className="w-3 h-3 text-muted-foreground" data-testid="info-oscillator-mode" />
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p className="text-xs max-w-xs">
+                    Naive draws and plays the ideal shape, whose harmonics above Nyquist alias when sampled.
+                    Band-limited builds it from only the harmonics below Nyquist, so nothing folds back.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={oscillatorMode}
+              onValueChange={(value: OscillatorMode | '') => value && onOscillatorModeChange(value)}
+              disabled={!!uploadedAudio || !periodic}
+              data-testid="toggle-oscillator-mode"
+            >
+              <ToggleGroupItem value="naive" className="text-xs">Naive</ToggleGroupItem>
+              <ToggleGroupItem value="band-limited" className="text-xs">Band-Limited</ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+          {!uploadedAudio && periodic && (
+            <div
+              className={cn(
+                'flex items-center gap-1 text-xs',
+                aliasedHarmonic && oscillatorMode === 'naive' ? 'text-chart-5' : 'text-muted-foreground',
+              )}
+              aria-live="polite"
+              data-testid="text-harmonics-above-nyquist"
+            >
+              {aliasedHarmonic && oscillatorMode === 'naive' && <AlertTriangle className="w-3 h-3 shrink-0" />}
+              <span>
+                {aliasedHarmonic
+                  ? `Harmonics from H${aliasedHarmonic.harmonic} (${formatFrequency(aliasedHarmonic.harmonic * frequency)}) up exceed Nyquist${oscillatorMode === 'naive' ? ' and alias' : ' and are removed'}`
+                  : 'Every harmonic is below Nyquist'}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium uppercase tracking-wide text-foreground">
+              Custom Audio
+            </label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="w-3 h-3 text-muted-foreground" data-testid="info-custom-audio" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs max-w-xs">
+                  Load a WAV, MP3 or OGG file to sample and quantize real audio instead of the generated waveform.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          {uploadedAudio ? (
+            <div className="flex items-center gap-2 rounded-md border border-border px-3 py-2">
+              <FileAudio className="w-4 h-4 shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0">
+                <div className="text-xs font-medium text-foreground truncate" data-testid="text-audio-file-name">
+                  {uploadedAudio.name}
+                </div>
+                <div className="text-xs font-mono tabular-nums text-muted-foreground">
+                  {uploadedAudio.duration.toFixed(2)}s @ {formatSampleRate(uploadedAudio.sampleRate)}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onAudioFileClear}
+                aria-label="Remove audio file"
+                data-testid="button-clear-audio-file"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ) : (
+            <div
+              role="button"
+              tabIndex={0}
+              onClick={() => fileInputRef.current?.click()}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ' ') {
+                  e.preventDefault();
+                  fileInputRef.current?.click();
+                }
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDragging(false);
+                const file = e.dataTransfer.files[0];
+                if (file) onAudioFileSelect(file);
+              }}
+              className={cn(
+                'flex flex-col items-center justify-center gap-1 rounded-md border border-dashed px-3 py-4 text-center cursor-pointer',
+                isDragging ? 'border-primary bg-primary/5' : 'border-border'
+              )}
+              data-testid="dropzone-audio-file"
+            >
+              <FileAudio className="w-4 h-4 text-muted-foreground" />
+              <span className="text-xs text-muted-foreground">
+                {isDecoding ? 'Decoding…' : 'Drop an audio file or click to browse'}
+              </span>
+            </div>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_AUDIO_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onAudioFileSelect(file);
+              e.target.value = '';
+            }}
+            data-testid="input-audio-file"
+          />
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium uppercase tracking-wide text-foreground">
+              Quantizer Type
+            </label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="w-3 h-3 text-muted-foreground" data-testid="info-quantizer-type" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs max-w-xs">
+                  Mid-tread quantizers have an output level at zero, mid-rise ones straddle it. Floor truncates to the level below, round picks the nearest. μ-law and A-law (G.711) compand the signal so quiet samples get finer steps.
+                  Input past full scale is hard clipped, soft clipped (saturating from half scale) or wrapped around to the opposite end.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              value={quantizerSettings.characteristic}
+              onValueChange={(value: QuantizerCharacteristic) => onQuantizerSettingsChange({ ...quantizerSettings, characteristic: value })}
+            >
+              <SelectTrigger className="w-full" data-testid="select-quantizer-characteristic">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="mid-rise">Mid-Rise</SelectItem>
+                <SelectItem value="mid-tread">Mid-Tread</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={quantizerSettings.rounding}
+              onValueChange={(value: RoundingMode) => onQuantizerSettingsChange({ ...quantizerSettings, rounding: value })}
+            >
+              <SelectTrigger className="w-full" data-testid="select-quantizer-rounding">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="floor">Floor</SelectItem>
+                <SelectItem value="round">Round</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Select
+            value={quantizerSettings.companding}
+            onValueChange={(value: CompandingLaw) => onQuantizerSettingsChange({ ...quantizerSettings, companding: value })}
+          >
+            <SelectTrigger className="w-full" data-testid="select-quantizer-companding">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Linear (Uniform)</SelectItem>
+              <SelectItem value="mu-law">μ-law (G.711)</SelectItem>
+              <SelectItem value="a-law">A-law (G.711)</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={quantizerSettings.overflow}
+            onValueChange={(value: OverflowMode) => onQuantizerSettingsChange({ ...quantizerSettings, overflow: value })}
+          >
+            <SelectTrigger className="w-full" data-testid="select-quantizer-overflow">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hard-clip">Hard Clip</SelectItem>
+              <SelectItem value="soft-clip">Soft Clip</SelectItem>
+              <SelectItem value="wrap">Wrap-Around</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium uppercase tracking-wide text-foreground">
+              Dither
+            </label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="w-3 h-3 text-muted-foreground" data-testid="info-dither" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs max-w-xs">
+                  Noise added before quantization. It decorrelates the error from the signal, trading distortion for a steady noise floor.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Select
+            value={quantizerSettings.dither}
+            onValueChange={(value: DitherType) => onQuantizerSettingsChange({ ...quantizerSettings, dither: value })}
+          >
+            <SelectTrigger className="w-full" data-testid="select-dither">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="rpdf">RPDF (Rectangular)</SelectItem>
+              <SelectItem value="tpdf">TPDF (Triangular)</SelectItem>
+              <SelectItem value="gaussian">Gaussian</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium uppercase tracking-wide text-foreground">
+              Noise Shaping
+            </label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="w-3 h-3 text-muted-foreground" data-testid="info-noise-shaping" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs max-w-xs">
+                  Feeds the quantization error back through a filter, pushing the noise towards high frequencies where it is less audible.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Select
+            value={quantizerSettings.noiseShaping}
+            onValueChange={(value: NoiseShapingType) => onQuantizerSettingsChange({ ...quantizerSettings, noiseShaping: value })}
+          >
+            <SelectTrigger className="w-full" data-testid="select-noise-shaping">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="first-order">1st-Order Error Feedback</SelectItem>
+              <SelectItem value="second-order">2nd-Order Error Feedback</SelectItem>
+              <SelectItem value="wannamaker-3">Wannamaker 3-Tap</SelectItem>
+              <SelectItem value="lipshitz-5">Lipshitz 5-Tap (E-Weighted)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium uppercase tracking-wide text-foreground">
+              Reconstruction
+            </label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="w-3 h-3 text-muted-foreground" data-testid="info-reconstruction" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs max-w-xs">
+                  How the playback rebuilds a continuous signal from the samples: windowed sinc interpolation or a stepped zero-order hold.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Select value={reconstructionMode} onValueChange={onReconstructionModeChange}>
+            <SelectTrigger className="w-full" data-testid="select-reconstruction-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sinc">Sinc Interpolation</SelectItem>
+              <SelectItem value="hold">Zero-Order Hold</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium uppercase tracking-wide text-foreground">
+              Export
+            </label>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Info className="w-3 h-3 text-muted-foreground" data-testid="info-export" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p className="text-xs max-w-xs">
+                  Download the sampled and quantized signal as a PCM WAV at the current sample rate and bit depth.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <div className="flex gap-2">
+            <Select value={exportDuration} onValueChange={setExportDuration}>
+              <SelectTrigger className="w-24" data-testid="select-export-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 s</SelectItem>
+                <SelectItem value="2">2 s</SelectItem>
+                <SelectItem value="5">5 s</SelectItem>
+                <SelectItem value="10">10 s</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => onExportWav(Number(exportDuration))}
+              data-testid="button-export-wav"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export WAV
+            </Button>
+          </div>
         </div>
 
         <Card className="p-4 space-y-3 bg-card">
@@ -300,8 +899,75 @@ export function ControlPanel({
                 {formatFileSize()}
               </span>
             </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted-foreground">Measured SQNR</span>
+              <span className="text-sm font-mono tabular-nums text-foreground" data-testid="text-sqnr">
+                {formatDb(metrics.sqnrDb)}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted-foreground">Theoretical SQNR</span>
+              <span className="text-sm font-mono tabular-nums text-foreground" data-testid="text-theoretical-sqnr">
+                {formatDb(metrics.theoreticalSqnrDb)}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted-foreground">RMS Error</span>
+              <span className="text-sm font-mono tabular-nums text-foreground" data-testid="text-rms-error">
+                {(metrics.rmsError / lsbSize).toFixed(3)} LSB
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted-foreground">Peak Error</span>
+              <span className="text-sm font-mono tabular-nums text-foreground" data-testid="text-peak-error">
+                {(metrics.peakError / lsbSize).toFixed(3)} LSB
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted-foreground">THD</span>
+              <span className="text-sm font-mono tabular-nums text-foreground" data-testid="text-thd">
+                {metrics.thdPercent === null ? '—' : `${metrics.thdPercent.toFixed(3)}%`}
+              </span>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-muted-foreground">ENOB</span>
+              <span className="text-sm font-mono tabular-nums text-foreground" data-testid="text-enob">
+                {metrics.enob !== null && Number.isFinite(metrics.enob) ? `${metrics.enob.toFixed(2)} bits` : '—'}
+              </span>
+            </div>
           </div>
         </Card>
+
+        {comparisonMetrics && (
+          <Card className="p-4 space-y-3 bg-card" data-testid="card-comparison-metrics">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-foreground">
+              A/B Metrics
+            </h3>
+            <div className="grid grid-cols-[1fr_auto_auto] gap-x-4 gap-y-2 items-center">
+              <span />
+              <span className="text-xs font-semibold text-muted-foreground text-right">A</span>
+              <span className="text-xs font-semibold text-muted-foreground text-right">B</span>
+              {([
+                ['Measured SQNR', (m: QuantizationMetrics) => formatDb(m.sqnrDb)],
+                ['RMS Error', (m: QuantizationMetrics) => (m.rmsError > 0 ? `${(20 * Math.log10(m.rmsError)).toFixed(1)} dBFS` : '—')],
+                ['THD', (m: QuantizationMetrics) => (m.thdPercent === null ? '—' : `${m.thdPercent.toFixed(2)}%`)],
+                ['ENOB', (m: QuantizationMetrics) => (m.enob !== null && Number.isFinite(m.enob) ? m.enob.toFixed(2) : '—')],
+              ] as const).map(([label, format]) => (
+                <Fragment key={label}>
+                  <span className="text-xs font-medium text-muted-foreground">{label}</span>
+                  <span className="text-sm font-mono tabular-nums text-foreground text-right">{format(comparisonMetrics.A)}</span>
+                  <span className="text-sm font-mono tabular-nums text-foreground text-right">{format(comparisonMetrics.B)}</span>
+                </Fragment>
+              ))}
+            </div>
+          </Card>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,151 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { HarmonicPartial, MAX_HARMONICS, MAX_HARMONIC_NUMBER, WaveformType } from '@shared/audio';
+import { aliasFrequency, getHarmonics } from '@shared/dsp';
+import { cn } from '@/lib/utils';
+
+interface HarmonicEditorProps {
+  harmonics: HarmonicPartial[];
+  frequency: number;
+  sampleRate: number;
+  onChange: (harmonics: HarmonicPartial[]) => void;
+}
+
+// Harmonics loaded when starting from one of the built-in shapes
+const TEMPLATE_HARMONICS = 16;
+
+const TEMPLATES: { type: WaveformType; label: string }[] = [
+  { type: 'square', label: 'Square' },
+  { type: 'triangle', label: 'Triangle' },
+  { type: 'sawtooth', label: 'Sawtooth' },
+];
+
+// The Fourier series of a built-in shape, scaled so its strongest partial is at full amplitude
+function templateHarmonics(type: WaveformType): HarmonicPartial[] {
+  const partials = getHarmonics(type, 1, TEMPLATE_HARMONICS);
+  const strongest = Math.max(...partials.map((partial) => partial.amplitude));
+  return partials.map((partial) => ({ ...partial, amplitude: partial.amplitude / strongest }));
+}
+
+/**
+ * Editor for the partials of the custom waveform. Partials above the Nyquist
+ * frequency are marked with the frequency they fold back to.
+ */
+export function HarmonicEditor({ harmonics, frequency, sampleRate, onChange }: HarmonicEditorProps) {
+  const nyquistFrequency = sampleRate / 2;
+
+  const updatePartial = (index: number, changes: Partial<HarmonicPartial>) => {
+    onChange(harmonics.map((partial, i) => (i === index ? { ...partial, ...changes } : partial)));
+  };
+
+  const addPartial = () => {
+    const next = Math.min(MAX_HARMONIC_NUMBER, Math.max(0, ...harmonics.map((partial) => partial.harmonic)) + 1);
+    onChange([...harmonics, { harmonic: next, amplitude: 0.5, phase: 0 }]);
+  };
+
+  return (
+    <div className="space-y-3" data-testid="harmonic-editor">
+      <Select value="" onValueChange={(type: WaveformType) => onChange(templateHarmonics(type))}>
+        <SelectTrigger className="w-full h-8 text-xs" data-testid="select-harmonic-template">
+          <SelectValue placeholder="Start from a built-in shape…" />
+        </SelectTrigger>
+        <SelectContent>
+          {TEMPLATES.map(({ type, label }) => (
+            <SelectItem key={type} value={type}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {harmonics.map((partial, index) => {
+        const partialFrequency = partial.harmonic * frequency;
+        const aliased = partialFrequency > nyquistFrequency;
+        return (
+          <div key={index} className="rounded-md border border-border p-2 space-y-2" data-testid={`harmonic-${index}`}>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">H</span>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_HARMONIC_NUMBER}
+                value={partial.harmonic}
+                onChange={(e) => {
+                  const harmonic = Math.round(Number(e.target.value));
+                  if (Number.isFinite(harmonic)) {
+                    updatePartial(index, { harmonic: Math.max(1, Math.min(MAX_HARMONIC_NUMBER, harmonic)) });
+                  }
+                }}
+                className="h-7 w-16 text-xs font-mono"
+                aria-label="Harmonic number"
+                data-testid={`input-harmonic-number-${index}`}
+              />
+              <span
+                className={cn('flex-1 text-xs font-mono tabular-nums', aliased ? 'text-chart-5' : 'text-muted-foreground')}
+                data-testid={`text-harmonic-frequency-${index}`}
+              >
+                {Math.round(partialFrequency)} Hz
+                {aliased && ` → ${Math.round(aliasFrequency(partialFrequency, sampleRate))} Hz`}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => onChange(harmonics.filter((_, i) => i !== index))}
+                aria-label={`Remove harmonic ${partial.harmonic}`}
+                data-testid={`button-remove-harmonic-${index}`}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-12 text-xs text-muted-foreground">Amp</span>
+              <Slider
+                value={[partial.amplitude]}
+                onValueChange={([amplitude]) => updatePartial(index, { amplitude })}
+                min={0}
+                max={1}
+                step={0.01}
+                className="flex-1"
+                data-testid={`slider-harmonic-amplitude-${index}`}
+              />
+              <span className="w-10 text-right text-xs font-mono tabular-nums text-foreground">
+                {partial.amplitude.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="w-12 text-xs text-muted-foreground">Phase</span>
+              <Slider
+                value={[Math.round((partial.phase * 180) / Math.PI)]}
+                onValueChange={([degrees]) => updatePartial(index, { phase: (degrees * Math.PI) / 180 })}
+                min={0}
+                max={360}
+                step={15}
+                className="flex-1"
+                data-testid={`slider-harmonic-phase-${index}`}
+              />
+              <span className="w-10 text-right text-xs font-mono tabular-nums text-foreground">
+                {Math.round((partial.phase * 180) / Math.PI)}°
+              </span>
+            </div>
+          </div>
+        );
+      })}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full"
+        onClick={addPartial}
+        disabled={harmonics.length >= MAX_HARMONICS}
+        data-testid="button-add-harmonic"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Harmonic
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { BinaryFormat, ByteOrder, QuantizerSettings, WordSize } from '@shared/audio';
+import { encode, sample } from '@shared/dsp';
+import { toCodeword } from '@shared/codeword';
+import { getAlignmentSamples, getWordBits, packCodewords } from '@shared/packing';
+import { SourceSettings, getSourceSignal } from '@/audio/source-signal';
+import { getFirstSample } from '@/lib/timeline';
+import { cn } from '@/lib/utils';
+
+interface HexDumpViewProps {
+  sampleRate: number;
+  bitDepth: number;
+  source: SourceSettings;
+  quantizerSettings: QuantizerSettings;
+  binaryFormat: BinaryFormat;
+  wordSize: WordSize;
+  byteOrder: ByteOrder;
+  timeOffset: number;
+  // Absolute index of the hovered or pinned sample
+  highlightedSample: number | null;
+  className?: string;
+}
+
+const MAX_DUMP_BYTES = 512;
+const BYTES_PER_ROW = 16;
+
+function toHex(value: number, digits: number): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
+
+/**
+ * Hex editor style dump of the quantized samples from the start of the view,
+ * packed as they would be stored in memory or a file. The bytes of the
+ * highlighted sample are marked and scrolled into view.
+ */
+export function HexDumpView({
+  sampleRate,
+  bitDepth,
+  source,
+  quantizerSettings,
+  binaryFormat,
+  wordSize,
+  byteOrder,
+  timeOffset,
+  highlightedSample,
+  className,
+}: HexDumpViewProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const highlightedRowRef = useRef<HTMLDivElement>(null);
+
+  const dump = useMemo(() => {
+    const signal = getSourceSignal(source, sampleRate);
+    const wordBits = getWordBits(bitDepth, wordSize);
+    // Packed streams start on a sample whose first bit is byte-aligned
+    const alignment = getAlignmentSamples(bitDepth, wordSize);
+    const firstSample = getFirstSample(timeOffset, sampleRate);
+    const startSample = firstSample - (firstSample % alignment);
+    const count = Math.max(alignment, Math.floor((MAX_DUMP_BYTES * 8) / wordBits / alignment) * alignment);
+
+    // The samples before the view only pad the dump out to that boundary; the quantizer
+    // restarts at the first sample in view so noise-shaped codes match the other panels
+    const lead = firstSample - startSample;
+    const codes = new Uint32Array(count);
+    codes.set(encode(sample(signal, sampleRate, lead, startSample), bitDepth, quantizerSettings, startSample));
+    codes.set(encode(sample(signal, sampleRate, count - lead, firstSample), bitDepth, quantizerSettings, firstSample), lead);
+    const codewords = Array.from(codes, (code) => toCodeword(code, bitDepth, binaryFormat, quantizerSettings.characteristic));
+
+    return {
+      ...packCodewords(codewords, bitDepth, wordSize, byteOrder),
+      wordBits,
+      startSample,
+      // Byte offset of the dump within a stream starting at t = 0
+      baseOffset: (startSample * wordBits) / 8,
+    };
+  }, [sampleRate, bitDepth, source, quantizerSettings, binaryFormat, wordSize, byteOrder, timeOffset]);
+
+  const highlighted = highlightedSample !== null ? dump.sampleBytes[highlightedSample - dump.startSample] : undefined;
+
+  // Scrolls only the dump itself; scrollIntoView would also move the page
+  useEffect(() => {
+    const container = scrollRef.current;
+    const row = highlightedRowRef.current;
+    if (!container || !row) return;
+
+    if (row.offsetTop < container.scrollTop) {
+      container.scrollTop = row.offsetTop;
+    } else if (row.offsetTop + row.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTop = row.offsetTop + row.offsetHeight - container.clientHeight;
+    }
+  }, [highlighted?.[0]]);
+
+  const rows: number[] = [];
+  for (let start = 0; start < dump.bytes.length; start += BYTES_PER_ROW) {
+    rows.push(start);
+  }
+  const highlightedRow = highlighted ? Math.floor(highlighted[0] / BYTES_PER_ROW) * BYTES_PER_ROW : -1;
+  const isHighlighted = (index: number) => highlighted !== undefined && index >= highlighted[0] && index <= highlighted[1];
+
+  const layoutLabel = wordSize === 'packed'
+    ? `${bitDepth}-bit packed, ${byteOrder === 'little-endian' ? 'LSB' : 'MSB'} first`
+    : `${bitDepth}-bit in ${dump.wordBits}-bit ${byteOrder} words`;
+
+  return (
+    <div className={cn('flex flex-col font-mono text-xs', className)} data-testid="hex-dump">
+      <div ref={scrollRef} className="relative flex-1 min-h-0 overflow-y-auto">
+        {rows.map((start) => (
+          <div
+            key={start}
+            ref={start === highlightedRow ? highlightedRowRef : undefined}
+            className="flex gap-3 whitespace-pre leading-5"
+          >
+            <span className="text-muted-foreground">{toHex(dump.baseOffset + start, 8)}</span>
+            <span>
+              {Array.from(dump.bytes.subarray(start, start + BYTES_PER_ROW), (byte, i) => (
+                <span
+                  key={i}
+                  className={cn(
+                    'px-0.5',
+                    i === 8 && 'ml-2',
+                    isHighlighted(start + i) ? 'bg-primary/30 text-foreground rounded-sm' : 'text-chart-2',
+                  )}
+                >
+                  {toHex(byte, 2)}
+                </span>
+              ))}
+            </span>
+            <span className="text-muted-foreground">
+              {Array.from(dump.bytes.subarray(start, start + BYTES_PER_ROW), (byte, i) => (
+                <span key={i} className={cn(isHighlighted(start + i) && 'bg-primary/30 text-foreground')}>
+                  {byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'}
+                </span>
+              ))}
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="pt-1 text-muted-foreground font-sans">
+        {layoutLabel}
+        {highlighted && highlightedSample !== null
+          ? ` · sample ${highlightedSample} at bytes 0x${toHex(dump.baseOffset + highlighted[0], 8)}–0x${toHex(dump.baseOffset + highlighted[1], 8)}`
+          : ' · hover or click a waveform to locate a sample'}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect } from 'react';
+import { CheckCircle2, Circle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { Lesson, LessonStep } from '@/lessons/types';
+import { cn } from '@/lib/utils';
+
+interface LessonOverlayProps {
+  lesson: Lesson;
+  stepIndex: number;
+  step: LessonStep;
+  checkpointMet: boolean;
+  onNext: () => void;
+  onBack: () => void;
+  onExit: () => void;
+}
+
+const HIGHLIGHT_ATTRIBUTE = 'data-lesson-highlight';
+
+/**
+ * The current lesson step, floating over the visualizer. The controls and
+ * panels the step mentions are outlined while it is shown.
+ */
+export function LessonOverlay({ lesson, stepIndex, step, checkpointMet, onNext, onBack, onExit }: LessonOverlayProps) {
+  const isLast = stepIndex === lesson.steps.length - 1;
+
+  useEffect(() => {
+    const targets = (step.highlight ?? []).flatMap((id) =>
+      Array.from(document.querySelectorAll(`[data-testid="${id}"]`)),
+    );
+    targets.forEach((target) => target.setAttribute(HIGHLIGHT_ATTRIBUTE, ''));
+    return () => targets.forEach((target) => target.removeAttribute(HIGHLIGHT_ATTRIBUTE));
+  }, [step]);
+
+  return (
+    <Card
+      className="fixed bottom-4 right-4 z-40 w-[calc(100%-2rem)] sm:w-96 p-4 space-y-3 bg-card shadow-lg"
+      role="dialog"
+      aria-label={`Lesson: ${lesson.title}`}
+      data-testid="card-lesson"
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            {lesson.title} · Step {stepIndex + 1} of {lesson.steps.length}
+          </div>
+          <h3 className="text-sm font-semibold text-foreground" data-testid="text-lesson-step-title">
+            {step.title}
+          </h3>
+        </div>
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={onExit} aria-label="Exit lesson" data-testid="button-exit-lesson">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <Progress value={((stepIndex + (checkpointMet ? 1 : 0)) / lesson.steps.length) * 100} className="h-1" />
+
+      <p className="text-sm text-foreground leading-relaxed">{step.body}</p>
+
+      {step.checkpoint && (
+        <div
+          className={cn('flex items-start gap-2 text-xs', checkpointMet ? 'text-chart-2' : 'text-muted-foreground')}
+          aria-live="polite"
+          data-testid="text-lesson-checkpoint"
+        >
+          {checkpointMet ? <CheckCircle2 className="w-4 h-4 shrink-0" /> : <Circle className="w-4 h-4 shrink-0" />}
+          <span>{step.checkpoint.description}</span>
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <Button variant="outline" size="sm" onClick={onBack} disabled={stepIndex === 0} data-testid="button-lesson-back">
+          Back
+        </Button>
+        <Button size="sm" onClick={onNext} disabled={!checkpointMet} data-testid="button-lesson-next">
+          {isLast ? 'Finish' : 'Next'}
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+import { useState } from 'react';
+import { CheckCircle2, GraduationCap } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { LessonProgressMap } from '@/hooks/use-lesson-progress';
+import type { Lesson } from '@/lessons/types';
+
+interface LessonPickerProps {
+  lessons: Lesson[];
+  progress: LessonProgressMap;
+  onStart: (lesson: Lesson) => void;
+}
+
+// Lists the built-in lessons with how far the student got in each
+export function LessonPicker({ lessons, progress, onStart }: LessonPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const describeProgress = (lesson: Lesson) => {
+    const saved = progress[lesson.id];
+    if (saved?.completed) return 'Completed';
+    if (saved && saved.completedSteps > 0) return `Step ${saved.completedSteps + 1} of ${lesson.steps.length}`;
+    return `${lesson.steps.length} steps`;
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} data-testid="button-lessons">
+        <GraduationCap className="w-4 h-4 mr-2" />
+        Lessons
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Lessons</DialogTitle>
+            <DialogDescription>Guided walkthroughs that set up each demo and check your work as you go.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {lessons.map((lesson) => (
+              <button
+                key={lesson.id}
+                type="button"
+                className="w-full text-left rounded-md border border-border p-3 hover-elevate active-elevate-2"
+                onClick={() => {
+                  setOpen(false);
+                  onStart(lesson);
+                }}
+                data-testid={`button-lesson-${lesson.id}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-semibold text-foreground">{lesson.title}</span>
+                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                    {progress[lesson.id]?.completed && <CheckCircle2 className="w-3 h-3 text-chart-2" />}
+                    {describeProgress(lesson)}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">{lesson.summary}</p>
+              </button>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Info, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { Preset, ShareableSettings } from '@shared/schema';
+
+interface PresetPickerProps {
+  // Settings written when saving
+  settings: ShareableSettings;
+  onLoad: (settings: ShareableSettings) => void;
+}
+
+const PRESETS_KEY = ['/api/presets'];
+
+/**
+ * Named snapshots of every visualizer setting, stored on the server.
+ * Saving under an existing name overwrites that preset.
+ */
+export function PresetPicker({ settings, onLoad }: PresetPickerProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const { data: presets = [], isLoading } = useQuery<Preset[]>({ queryKey: PRESETS_KEY });
+
+  // The selection goes stale when the list changes, e.g. after signing in or out
+  const selected = presets.find((preset) => preset.id === selectedId);
+
+  const showError = (title: string) => (err: Error) => {
+    toast({ title, description: err.message, variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (presetName: string) => {
+      const existing = presets.find((preset) => preset.name.toLowerCase() === presetName.toLowerCase());
+      const body = { name: presetName, settings };
+      const res = existing
+        ? await apiRequest('PUT', `/api/presets/${existing.id}`, body)
+        : await apiRequest('POST', '/api/presets', body);
+      return (await res.json()) as Preset;
+    },
+    onSuccess: (preset) => {
+      queryClient.invalidateQueries({ queryKey: PRESETS_KEY });
+      setSelectedId(preset.id);
+      setName('');
+      toast({ title: `Saved preset "${preset.name}"` });
+    },
+    onError: showError('Could not save preset'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/presets/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PRESETS_KEY });
+      setSelectedId(null);
+    },
+    onError: showError('Could not delete preset'),
+  });
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (preset) {
+      setSelectedId(id);
+      onLoad(preset.settings);
+    }
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (trimmed) {
+      saveMutation.mutate(trimmed);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <label className="text-xs font-medium uppercase tracking-wide text-foreground">
+          Presets
+        </label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <Info className="w-3 h-3 text-muted-foreground" data-testid="info-presets" />
+          </TooltipTrigger>
+          <TooltipContent>
+            <p className="text-xs max-w-xs">
+              Save the current settings under a name and load them again later. Saving with an existing name replaces that preset.
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <div className="flex gap-2">
+        <Select value={selected?.id ?? ''} onValueChange={handleSelect} disabled={presets.length === 0}>
+          <SelectTrigger className="flex-1" data-testid="select-preset">
+            <SelectValue placeholder={isLoading ? 'Loading…' : presets.length ? 'Load a preset' : 'No saved presets'} />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map((preset) => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => selected && deleteMutation.mutate(selected.id)}
+          disabled={!selected || deleteMutation.isPending}
+          aria-label="Delete preset"
+          data-testid="button-delete-preset"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave();
+        }}
+      >
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Preset name"
+          maxLength={64}
+          data-testid="input-preset-name"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          size="icon"
+          disabled={!name.trim() || saveMutation.isPending}
+          aria-label="Save preset"
+          data-testid="button-save-preset"
+        >
+          <Save className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { FormEvent, useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { CheckCircle2, ClipboardCheck, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { cn } from '@/lib/utils';
+import { GradedAnswer, QUIZ_LENGTH, QuizQuestion, describeQuestion, generateQuiz, gradeAnswer } from '@shared/quiz';
+import type { Quiz, QuizAttempt } from '@shared/schema';
+
+// A null id marks a quiz generated and graded locally for a signed-out visitor
+interface ActiveQuiz {
+  id: string | null;
+  questions: QuizQuestion[];
+}
+
+const ATTEMPTS_KEY = ['/api/quiz-attempts'];
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+function GradedQuestion({ graded, index }: { graded: GradedAnswer; index: number }) {
+  const { prompt, unit, explanation } = describeQuestion(graded.question);
+  return (
+    <div className="space-y-1" data-testid={`quiz-result-${index}`}>
+      <div className="flex items-start gap-2">
+        {graded.correct
+          ? <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-chart-2" />
+          : <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />}
+        <p className="text-sm text-foreground">{prompt}</p>
+      </div>
+      <p className={cn('text-xs pl-6', graded.correct ? 'text-muted-foreground' : 'text-destructive')}>
+        Your answer: {graded.answer === null ? 'none' : `${formatNumber(graded.answer)} ${unit}`}
+      </p>
+      {!graded.correct && <p className="text-xs pl-6 text-muted-foreground">{explanation}</p>}
+    </div>
+  );
+}
+
+/**
+ * Auto-graded questions generated from the app's own sampling and quantization
+ * math. Signed-in users answer questions issued by the server, which grades
+ * and keeps their attempts.
+ */
+export function QuizDialog() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [quiz, setQuiz] = useState<ActiveQuiz | null>(null);
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [results, setResults] = useState<GradedAnswer[] | null>(null);
+
+  const { data: attempts = [] } = useQuery<QuizAttempt[]>({
+    queryKey: ATTEMPTS_KEY,
+    enabled: user !== null,
+  });
+
+  const startQuiz = ({ id, questions }: ActiveQuiz) => {
+    setQuiz({ id, questions });
+    setAnswers(Array(questions.length).fill(''));
+    setResults(null);
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/quizzes');
+      return (await res.json()) as Quiz;
+    },
+    onSuccess: startQuiz,
+    onError: (err: Error) => {
+      toast({ title: 'Could not start quiz', description: err.message, variant: 'destructive' });
+    },
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: async (submission: { quizId: string; answers: (number | null)[] }) => {
+      const res = await apiRequest('POST', '/api/quiz-attempts', submission);
+      return (await res.json()) as QuizAttempt;
+    },
+    onSuccess: (attempt) => {
+      queryClient.invalidateQueries({ queryKey: ATTEMPTS_KEY });
+      setResults(attempt.answers);
+    },
+    onError: (err: Error) => {
+      toast({ title: 'Could not submit quiz', description: err.message, variant: 'destructive' });
+    },
+  });
+
+  const newQuiz = () => {
+    if (user) {
+      startMutation.mutate();
+    } else {
+      startQuiz({ id: null, questions: generateQuiz(QUIZ_LENGTH) });
+    }
+  };
+
+  // A quiz issued to one account can't be submitted from another, or while signed out
+  useEffect(() => {
+    setQuiz(null);
+  }, [user?.id]);
+
+  // Questions are only issued once the dialog is opened
+  useEffect(() => {
+    if (open && !quiz && !startMutation.isPending) {
+      newQuiz();
+    }
+  }, [open, quiz]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!quiz) return;
+    const submission = answers.map((raw) => {
+      const value = raw.trim() === '' ? null : Number(raw);
+      return value !== null && Number.isFinite(value) ? value : null;
+    });
+
+    if (quiz.id !== null) {
+      submitMutation.mutate({ quizId: quiz.id, answers: submission });
+    } else {
+      setResults(quiz.questions.map((question, i) => gradeAnswer(question, submission[i])));
+    }
+  };
+
+  const score = results?.filter((result) => result.correct).length ?? 0;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} data-testid="button-quiz">
+        <ClipboardCheck className="w-4 h-4 mr-2" />
+        Quiz
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Quiz</DialogTitle>
+            <DialogDescription>Work out each answer, then check your score.</DialogDescription>
+          </DialogHeader>
+          <Tabs defaultValue="quiz">
+            <TabsList className="grid grid-cols-2 w-full">
+              <TabsTrigger value="quiz">Questions</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="quiz" className="pt-2">
+              {results ? (
+                <div className="space-y-4">
+                  <div className="text-lg font-semibold font-mono tabular-nums text-foreground" data-testid="text-quiz-score">
+                    {score} / {results.length}
+                  </div>
+                  {results.map((graded, i) => (
+                    <GradedQuestion key={i} graded={graded} index={i} />
+                  ))}
+                  {!user && (
+                    <p className="text-xs text-muted-foreground">Sign in to keep a history of your scores.</p>
+                  )}
+                  <Button className="w-full" onClick={newQuiz} disabled={startMutation.isPending} data-testid="button-new-quiz">
+                    New Quiz
+                  </Button>
+                </div>
+              ) : !quiz ? (
+                startMutation.isError ? (
+                  <Button variant="outline" className="w-full" onClick={newQuiz} data-testid="button-retry-quiz">
+                    Try Again
+                  </Button>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Loading questions…</p>
+                )
+              ) : (
+                <form className="space-y-4" onSubmit={handleSubmit}>
+                  {quiz.questions.map((question, i) => {
+                    const { prompt, unit } = describeQuestion(question);
+                    return (
+                      <div key={i} className="space-y-2">
+                        <label className="text-sm text-foreground" htmlFor={`quiz-answer-${i}`}>
+                          {i + 1}. {prompt}
+                        </label>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            id={`quiz-answer-${i}`}
+                            type="number"
+                            step="any"
+                            inputMode="decimal"
+                            value={answers[i]}
+                            onChange={(e) => setAnswers((prev) => prev.map((answer, j) => (j === i ? e.target.value : answer)))}
+                            className="font-mono"
+                            data-testid={`input-quiz-answer-${i}`}
+                          />
+                          <span className="text-xs text-muted-foreground w-14 shrink-0">{unit}</span>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <Button type="submit" className="w-full" disabled={submitMutation.isPending} data-testid="button-submit-quiz">
+                    Check Answers
+                  </Button>
+                </form>
+              )}
+            </TabsContent>
+
+            <TabsContent value="history" className="pt-2">
+              {!user ? (
+                <p className="text-sm text-muted-foreground">Sign in to keep a history of your scores.</p>
+              ) : attempts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No quizzes taken yet.</p>
+              ) : (
+                <div className="space-y-1" data-testid="list-quiz-history">
+                  {attempts.map((attempt) => (
+                    <div key={attempt.id} className="flex items-center justify-between gap-4">
+                      <span className="text-xs text-muted-foreground">{new Date(attempt.createdAt).toLocaleString()}</span>
+                      <span className="text-sm font-mono tabular-nums text-foreground">
+                        {attempt.score} / {attempt.total}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,77 @@
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import type { SampleDetails } from '@/audio/inspect-sample';
+
+function SampleDetailRows({ details }: { details: SampleDetails }) {
+  const rows: Array<[string, string]> = [
+    ['Sample', `#${details.index}`],
+    ['Time', `${(details.time * 1000).toFixed(4)} ms`],
+    ['Analog Value', details.analogValue.toFixed(6)],
+    ['Quantized Level', details.level.toLocaleString()],
+    ['Quantized Value', details.quantizedValue.toFixed(6)],
+    ['Error', `${details.errorLsb >= 0 ? '+' : ''}${details.errorLsb.toFixed(3)} LSB`],
+    ['Code', details.codeword],
+  ];
+
+  return (
+    <div className="space-y-1">
+      {rows.map(([label, value]) => (
+        <div key={label} className="flex items-center justify-between gap-4">
+          <span className="text-xs font-medium text-muted-foreground">{label}</span>
+          <span className="text-xs font-mono tabular-nums text-foreground break-all text-right">{value}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface SampleTooltipProps {
+  details: SampleDetails;
+  clientX: number;
+  clientY: number;
+}
+
+// Follows the pointer over a canvas
+export function SampleTooltip({ details, clientX, clientY }: SampleTooltipProps) {
+  return (
+    <div
+      className="fixed z-50 pointer-events-none w-56 rounded-md border border-border bg-popover p-2 shadow-md"
+      style={{ left: clientX + 12, top: clientY + 12 }}
+      data-testid="tooltip-sample"
+    >
+      <SampleDetailRows details={details} />
+    </div>
+  );
+}
+
+interface SampleInspectorProps {
+  details: SampleDetails;
+  onClose: () => void;
+}
+
+/**
+ * Details of the sample pinned by clicking a canvas.
+ */
+export function SampleInspector({ details, onClose }: SampleInspectorProps) {
+  return (
+    <Card className="p-4 space-y-3 bg-card" data-testid="card-sample-inspector">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-foreground">
+          Sample Inspector
+        </h3>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={onClose}
+          aria-label="Unpin sample"
+          data-testid="button-unpin-sample"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <SampleDetailRows details={details} />
+    </Card>
+  );
+}
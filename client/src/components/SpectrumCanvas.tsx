@@ -0,0 +1,273 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { QuantizerSettings, SamplingConfig } from '@shared/audio';
+import { DEFAULT_QUANTIZER_SETTINGS, aliasFrequency, getHarmonics, magnitudeSpectrum, quantize, sample } from '@shared/dsp';
+import { SourceSettings, getSourceSignal } from '@/audio/source-signal';
+import { getFirstSample } from '@/lib/timeline';
+
+interface SpectrumCanvasProps {
+  sampleRate: number;
+  bitDepth: number;
+  source: SourceSettings;
+  quantizerSettings?: QuantizerSettings;
+  timeOffset?: number;
+  // A second configuration whose spectrum is drawn on top, for A/B comparison
+  overlay?: SamplingConfig | null;
+  className?: string;
+}
+
+// The pre-crusher signal is analysed at a rate high enough to stand in for "analog"
+const REFERENCE_RATE = 96000;
+const REFERENCE_FFT_SIZE = 8192;
+const CRUSHED_FFT_SIZE = 4096;
+const MIN_DB = -120;
+const MAX_DB = 0;
+// Aliased partials quieter than this are not labelled
+const ALIAS_LABEL_FLOOR_DB = -60;
+const MAX_ALIAS_LABELS = 8;
+
+/**
+ * Overlays the spectrum of the signal before and after sampling + quantization,
+ * with the Nyquist frequency marked and aliased partials labelled where they fold back.
+ */
+export function SpectrumCanvas({
+  sampleRate,
+  bitDepth,
+  source,
+  quantizerSettings = DEFAULT_QUANTIZER_SETTINGS,
+  timeOffset = 0,
+  overlay = null,
+  className,
+}: SpectrumCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const spectra = useMemo(() => {
+    const signal = getSourceSignal(source, sampleRate);
+
+    const reference = magnitudeSpectrum(
+      sample(signal, REFERENCE_RATE, REFERENCE_FFT_SIZE, getFirstSample(timeOffset, REFERENCE_RATE)),
+    );
+    const crushedStart = getFirstSample(timeOffset, sampleRate);
+    const crushed = magnitudeSpectrum(
+      quantize(sample(signal, sampleRate, CRUSHED_FFT_SIZE, crushedStart), bitDepth, quantizerSettings, crushedStart),
+    );
+
+    let overlayCrushed: Float32Array | null = null;
+    if (overlay) {
+      const overlayStart = getFirstSample(timeOffset, overlay.sampleRate);
+      overlayCrushed = magnitudeSpectrum(
+        quantize(
+          sample(
+            getSourceSignal(source, overlay.sampleRate),
+            overlay.sampleRate,
+            CRUSHED_FFT_SIZE,
+            overlayStart,
+          ),
+          overlay.bitDepth,
+          overlay.quantizerSettings,
+          overlayStart,
+        ),
+      );
+    }
+
+    return { reference, crushed, overlayCrushed };
+  }, [sampleRate, bitDepth, source, quantizerSettings, timeOffset, overlay]);
+
+  const aliasedPartials = useMemo(() => {
+    const { uploadedAudio, frequency, waveformType, harmonics, oscillatorMode } = source;
+    // Band-limited waveforms have nothing above Nyquist left to fold back
+    if (uploadedAudio || oscillatorMode === 'band-limited') return [];
+
+    const nyquist = sampleRate / 2;
+    return getHarmonics(waveformType, frequency, REFERENCE_RATE / 2, harmonics)
+      .filter((partial) => partial.harmonic * frequency > nyquist)
+      .filter((partial) => 20 * Math.log10(partial.amplitude) > ALIAS_LABEL_FLOOR_DB)
+      .slice(0, MAX_ALIAS_LABELS)
+      .map((partial) => ({
+        harmonic: partial.harmonic,
+        frequency: aliasFrequency(partial.harmonic * frequency, sampleRate),
+      }));
+  }, [sampleRate, source]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (!ctx) return;
+
+    const drawSpectrum = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const rect = canvas.getBoundingClientRect();
+
+      canvas.width = rect.width * dpr;
+      canvas.height = rect.height * dpr;
+      ctx.scale(dpr, dpr);
+
+      const width = rect.width;
+      const height = rect.height;
+      const plotTop = 28;
+      const plotBottom = height - 16;
+
+      const computedStyle = getComputedStyle(canvas);
+      const color = (name: string, fallback: string, alpha?: number) => {
+        const value = computedStyle.getPropertyValue(name);
+        if (!value) return fallback;
+        return alpha === undefined ? `hsl(${value})` : `hsl(${value} / ${alpha})`;
+      };
+
+      ctx.fillStyle = color('--background', '#000000');
+      ctx.fillRect(0, 0, width, height);
+
+      const nyquist = sampleRate / 2;
+      const maxFrequency = Math.min(REFERENCE_RATE / 2, Math.max(24000, nyquist, overlay ? overlay.sampleRate / 2 : 0));
+      const xForFrequency = (f: number) => (f / maxFrequency) * width;
+      const yForDb = (db: number) => {
+        const clamped = Math.max(MIN_DB, Math.min(MAX_DB, db));
+        return plotTop + ((MAX_DB - clamped) / (MAX_DB - MIN_DB)) * (plotBottom - plotTop);
+      };
+
+      // dB grid
+      ctx.strokeStyle = color('--border', '#555555');
+      ctx.fillStyle = color('--muted-foreground', '#888888');
+      ctx.lineWidth = 0.5;
+      ctx.font = '10px var(--font-mono)';
+      ctx.textAlign = 'right';
+      ctx.textBaseline = 'middle';
+      ctx.setLineDash([2, 4]);
+      for (let db = MAX_DB; db >= MIN_DB; db -= 30) {
+        const y = yForDb(db);
+        ctx.beginPath();
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+        ctx.stroke();
+        ctx.fillText(`${db} dB`, width - 4, y - 6);
+      }
+      ctx.setLineDash([]);
+
+      const drawTrace = (magnitudes: Float32Array, rate: number, strokeStyle: string) => {
+        const binWidth = rate / ((magnitudes.length - 1) * 2);
+        ctx.strokeStyle = strokeStyle;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+
+        // Plot the loudest bin under each pixel column so narrow peaks survive
+        const columns = new Float32Array(Math.ceil(width) + 1).fill(-Infinity);
+        for (let k = 0; k < magnitudes.length; k++) {
+          const f = k * binWidth;
+          if (f > maxFrequency) break;
+          const x = Math.round(xForFrequency(f));
+          columns[x] = Math.max(columns[x], magnitudes[k]);
+        }
+
+        let started = false;
+        for (let x = 0; x < columns.length; x++) {
+          if (columns[x] === -Infinity) continue;
+          if (started) {
+            ctx.lineTo(x, yForDb(columns[x]));
+          } else {
+            ctx.moveTo(x, yForDb(columns[x]));
+            started = true;
+          }
+        }
+        ctx.stroke();
+      };
+
+      drawTrace(spectra.reference, REFERENCE_RATE, color('--muted-foreground', '#888888', 0.8));
+      drawTrace(spectra.crushed, sampleRate, color('--chart-2', '#10b981'));
+      if (overlay && spectra.overlayCrushed) {
+        drawTrace(spectra.overlayCrushed, overlay.sampleRate, color('--chart-5', '#f59e0b', 0.8));
+      }
+
+      // Nyquist line
+      if (nyquist <= maxFrequency) {
+        const x = xForFrequency(nyquist);
+        ctx.strokeStyle = color('--destructive', '#ef4444');
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 2]);
+        ctx.beginPath();
+        ctx.moveTo(x, plotTop);
+        ctx.lineTo(x, plotBottom);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.fillStyle = color('--destructive', '#ef4444');
+        ctx.textAlign = x > width - 120 ? 'right' : 'left';
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(`Nyquist ${formatFrequency(nyquist)}`, x + (ctx.textAlign === 'right' ? -4 : 4), plotBottom - 4);
+      }
+
+      // Aliased partials, marked where they fold back below Nyquist; an overlaid B trace uses their color
+      if (!overlay) {
+        ctx.fillStyle = color('--chart-5', '#f59e0b');
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'alphabetic';
+        aliasedPartials.forEach(({ harmonic, frequency: aliasedAt }, index) => {
+          const x = xForFrequency(aliasedAt);
+          const labelY = plotTop + 10 + (index % 2) * 11;
+          ctx.beginPath();
+          ctx.moveTo(x, plotTop + 14 + (index % 2) * 11);
+          ctx.lineTo(x - 3, plotTop + 19 + (index % 2) * 11);
+          ctx.lineTo(x + 3, plotTop + 19 + (index % 2) * 11);
+          ctx.closePath();
+          ctx.fill();
+          ctx.fillText(harmonic === 1 ? 'f' : `${harmonic}f`, x, labelY);
+        });
+      }
+
+      // Frequency axis labels
+      ctx.fillStyle = color('--muted-foreground', '#888888');
+      ctx.textBaseline = 'alphabetic';
+      ctx.textAlign = 'left';
+      ctx.fillText('0 Hz', 4, height - 4);
+      ctx.textAlign = 'right';
+      ctx.fillText(formatFrequency(maxFrequency), width - 4, height - 4);
+
+      // Legend
+      ctx.font = '12px var(--font-sans)';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'alphabetic';
+      const legend: Array<[string, string]> = [['Before crusher', color('--muted-foreground', '#888888')]];
+      if (overlay) {
+        legend.push([`A (${sampleRate} Hz, ${bitDepth}-bit)`, color('--chart-2', '#10b981')]);
+        legend.push([`B (${overlay.sampleRate} Hz, ${overlay.bitDepth}-bit)`, color('--chart-5', '#f59e0b')]);
+      } else {
+        legend.push([`After crusher (${sampleRate} Hz, ${bitDepth}-bit)`, color('--chart-2', '#10b981')]);
+        if (aliasedPartials.length > 0) {
+          legend.push(['▲ aliased partials', color('--chart-5', '#f59e0b')]);
+        }
+      }
+      let legendX = 8;
+      legend.forEach(([text, fill]) => {
+        ctx.fillStyle = fill;
+        ctx.fillText(text, legendX, 20);
+        legendX += ctx.measureText(text).width + 16;
+      });
+    };
+
+    drawSpectrum();
+
+    const handleResize = () => drawSpectrum();
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [spectra, aliasedPartials, sampleRate, bitDepth, overlay]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      aria-label="Frequency spectrum before and after the crusher"
+      data-testid="canvas-spectrum"
+      style={{ width: '100%', height: '100%' }}
+    />
+  );
+}
+
+function formatFrequency(freq: number): string {
+  if (freq >= 1000) {
+    return `${(freq / 1000).toFixed(1)} kHz`;
+  }
+  return `${freq.toFixed(1)} Hz`;
+}
@@ -0,0 +1,109 @@
+import { Slider } from '@/components/ui/slider';
+import { TestSignalSettings, TestSignalType } from '@shared/audio';
+
+interface TestSignalControlsProps {
+  type: TestSignalType;
+  settings: TestSignalSettings;
+  onChange: (settings: TestSignalSettings) => void;
+}
+
+interface ParameterSliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+  testId: string;
+}
+
+function ParameterSlider({ label, value, min, max, step, format, onChange, testId }: ParameterSliderProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-20 text-xs text-muted-foreground">{label}</span>
+      <Slider
+        value={[value]}
+        onValueChange={([next]) => onChange(next)}
+        min={min}
+        max={max}
+        step={step}
+        className="flex-1"
+        aria-label={label}
+        data-testid={testId}
+      />
+      <span className="w-16 text-right text-xs font-mono tabular-nums text-foreground">{format(value)}</span>
+    </div>
+  );
+}
+
+const formatHz = (value: number) => (value >= 1000 ? `${(value / 1000).toFixed(2)} kHz` : `${Math.round(value)} Hz`);
+
+/**
+ * Parameters of the selected test signal beyond the tone frequency. Noise and
+ * impulse trains have none.
+ */
+export function TestSignalControls({ type, settings, onChange }: TestSignalControlsProps) {
+  const update = (changes: Partial<TestSignalSettings>) => onChange({ ...settings, ...changes });
+
+  switch (type) {
+    case 'linear-chirp':
+    case 'log-chirp':
+      return (
+        <div className="space-y-2" data-testid="test-signal-controls">
+          <ParameterSlider
+            label="Sweep to"
+            value={settings.sweepEndFrequency}
+            min={20}
+            max={20000}
+            step={1}
+            format={formatHz}
+            onChange={(sweepEndFrequency) => update({ sweepEndFrequency })}
+            testId="slider-sweep-end-frequency"
+          />
+          <ParameterSlider
+            label="Sweep time"
+            value={settings.sweepDuration}
+            min={0.1}
+            max={10}
+            step={0.1}
+            format={(value) => `${value.toFixed(1)}s`}
+            onChange={(sweepDuration) => update({ sweepDuration })}
+            testId="slider-sweep-duration"
+          />
+        </div>
+      );
+    case 'two-tone':
+      return (
+        <div className="space-y-2" data-testid="test-signal-controls">
+          <ParameterSlider
+            label="Second tone"
+            value={settings.secondFrequency}
+            min={20}
+            max={20000}
+            step={1}
+            format={formatHz}
+            onChange={(secondFrequency) => update({ secondFrequency })}
+            testId="slider-second-frequency"
+          />
+        </div>
+      );
+    case 'dc':
+      return (
+        <div className="space-y-2" data-testid="test-signal-controls">
+          <ParameterSlider
+            label="Level"
+            value={settings.dcLevel}
+            min={-1}
+            max={1}
+            step={0.01}
+            format={(value) => value.toFixed(2)}
+            onChange={(dcLevel) => update({ dcLevel })}
+            testId="slider-dc-level"
+          />
+        </div>
+      );
+    default:
+      return null;
+  }
+}
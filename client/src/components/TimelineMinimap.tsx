@@ -0,0 +1,144 @@
+import { useEffect, useRef } from 'react';
+import { SourceSettings, getSourceSignal } from '@/audio/source-signal';
+import { getViewDuration } from '@/lib/timeline';
+
+interface TimelineMinimapProps {
+  source: SourceSettings;
+  // Rate the generated signal is sampled at
+  sampleRate: number;
+  timelineDuration: number;
+  zoomLevel: number;
+  timeOffset: number;
+  onTimeOffsetChange: (timeOffset: number) => void;
+  className?: string;
+}
+
+// Signal evaluations per pixel column when drawing a generated waveform's envelope
+const SUBSAMPLES_PER_COLUMN = 8;
+
+/**
+ * Overview of the whole timeline with the visible window highlighted.
+ * Clicking or dragging centers the window on the pointer.
+ */
+export function TimelineMinimap({
+  source,
+  sampleRate,
+  timelineDuration,
+  zoomLevel,
+  timeOffset,
+  onTimeOffsetChange,
+  className,
+}: TimelineMinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDraggingRef = useRef(false);
+
+  const viewDuration = getViewDuration(zoomLevel);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (!ctx) return;
+
+    const drawMinimap = () => {
+      const dpr = window.devicePixelRatio || 1;
+      const rect = canvas.getBoundingClientRect();
+
+      canvas.width = rect.width * dpr;
+      canvas.height = rect.height * dpr;
+      ctx.scale(dpr, dpr);
+
+      const width = rect.width;
+      const height = rect.height;
+      const centerY = height / 2;
+      const amplitude = height * 0.4;
+
+      const computedStyle = getComputedStyle(canvas);
+      const bgColor = computedStyle.getPropertyValue('--background');
+      ctx.fillStyle = bgColor ? `hsl(${bgColor})` : '#000000';
+      ctx.fillRect(0, 0, width, height);
+
+      // Min/max envelope of the signal per pixel column
+      const mutedFgColor = computedStyle.getPropertyValue('--muted-foreground');
+      ctx.fillStyle = mutedFgColor ? `hsl(${mutedFgColor})` : '#888888';
+
+      // A file's envelope is read straight from its samples below
+      const { uploadedAudio } = source;
+      const signal = getSourceSignal(source, sampleRate);
+      const timePerPixel = timelineDuration / width;
+
+      for (let x = 0; x < width; x++) {
+        let min = Infinity;
+        let max = -Infinity;
+
+        if (uploadedAudio) {
+          const start = Math.floor(x * timePerPixel * uploadedAudio.sampleRate);
+          const end = Math.min(uploadedAudio.samples.length, Math.floor((x + 1) * timePerPixel * uploadedAudio.sampleRate));
+          for (let i = start; i < Math.max(end, start + 1) && i < uploadedAudio.samples.length; i++) {
+            min = Math.min(min, uploadedAudio.samples[i]);
+            max = Math.max(max, uploadedAudio.samples[i]);
+          }
+        } else {
+          for (let i = 0; i < SUBSAMPLES_PER_COLUMN; i++) {
+            const value = signal((x + i / SUBSAMPLES_PER_COLUMN) * timePerPixel);
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+          }
+        }
+
+        if (min <= max) {
+          const top = centerY - max * amplitude;
+          ctx.fillRect(x, top, 1, Math.max(1, (max - min) * amplitude));
+        }
+      }
+
+      // Visible window
+      const primaryColor = computedStyle.getPropertyValue('--primary');
+      const windowX = (timeOffset / timelineDuration) * width;
+      const windowWidth = Math.max(2, (viewDuration / timelineDuration) * width);
+      ctx.fillStyle = primaryColor ? `hsl(${primaryColor} / 0.2)` : 'rgba(59, 130, 246, 0.2)';
+      ctx.fillRect(windowX, 0, windowWidth, height);
+      ctx.strokeStyle = primaryColor ? `hsl(${primaryColor})` : '#3b82f6';
+      ctx.lineWidth = 1;
+      ctx.strokeRect(windowX + 0.5, 0.5, windowWidth - 1, height - 1);
+    };
+
+    drawMinimap();
+
+    const handleResize = () => drawMinimap();
+    window.addEventListener('resize', handleResize);
+
+    return () => {
+      window.removeEventListener('resize', handleResize);
+    };
+  }, [source, sampleRate, timelineDuration, viewDuration, timeOffset]);
+
+  const centerOnPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const pointerTime = ((e.clientX - rect.left) / rect.width) * timelineDuration;
+    onTimeOffsetChange(pointerTime - viewDuration / 2);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={className}
+      aria-label="Timeline overview"
+      data-testid="canvas-timeline-minimap"
+      style={{ width: '100%', height: '100%', cursor: 'pointer' }}
+      onPointerDown={(e) => {
+        isDraggingRef.current = true;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        centerOnPointer(e);
+      }}
+      onPointerMove={(e) => {
+        if (isDraggingRef.current) centerOnPointer(e);
+      }}
+      onPointerUp={(e) => {
+        isDraggingRef.current = false;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+      }}
+    />
+  );
+}
@@ -1,22 +1,223 @@
-import { useEffect, useRef } from 'react';
-import { WaveformType, generateWaveform, generateStaticWaveformPath } from '@shared/schema';
+import { useEffect, useMemo, useRef } from 'react';
+import { BinaryFormat, OverflowMode, QuantizerSettings, SamplingConfig, generateStaticWaveformPath } from '@shared/audio';
+import { BINARY_FORMAT_LABELS, formatCodeword } from '@shared/codeword';
+import { DEFAULT_QUANTIZER_SETTINGS, encode, getDecisionThresholds, getLsbSize, getQuantizationLevels, quantize, sample } from '@shared/dsp';
+import { SourceSettings, getSourceSignal } from '@/audio/source-signal';
+import { MAX_VIEW_SAMPLES, getFirstSample, getViewDuration } from '@/lib/timeline';
+import { describeWaveform } from '@/lib/waveforms';
 
 interface WaveformCanvasProps {
   sampleRate: number;
   bitDepth: number;
-  frequency: number;
-  waveformType: WaveformType;
+  source: SourceSettings;
   zoomLevel?: number;
   className?: string;
-  type: 'original' | 'quantized' | 'binary';
+  type: 'original' | 'quantized' | 'binary' | 'error';
   isPlaying?: boolean;
+  quantizerSettings?: QuantizerSettings;
+  // Codeword format of the 'binary' stream
+  binaryFormat?: BinaryFormat;
+  // Start of the visible window, in seconds
+  timeOffset?: number;
+  // Drag to pan and wheel to zoom are enabled when these are provided
+  onPan?: (deltaSeconds: number) => void;
+  onZoomAt?: (zoomLevel: number, anchorTime: number) => void;
+  // Reports the sample nearest the pointer, or null when it leaves
+  onHoverSample?: (hover: SampleHover | null) => void;
+  // Called with the sample nearest a click (not a drag)
+  onSelectSample?: (sampleIndex: number) => void;
+  // Absolute index of a sample to mark, e.g. the one hovered in another panel
+  highlightedSample?: number | null;
+  // A second configuration drawn over the 'quantized' view for A/B comparison
+  overlay?: SamplingConfig | null;
 }
 
-export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType, zoomLevel = 1, className, type, isPlaying = false }: WaveformCanvasProps) {
+export interface SampleHover {
+  sampleIndex: number;
+  // Pointer position, for placing a tooltip
+  clientX: number;
+  clientY: number;
+}
+
+// Pointer travel below which a press counts as a click rather than a drag
+const CLICK_SLOP_PX = 4;
+
+// Marks a highlighted sample with a dashed guide spanning the plot and a ring at its value
+function drawSampleHighlight(ctx: CanvasRenderingContext2D, color: string, x: number, y: number, top: number, bottom: number) {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([3, 3]);
+  ctx.beginPath();
+  ctx.moveTo(x, top);
+  ctx.lineTo(x, bottom);
+  ctx.stroke();
+  ctx.setLineDash([]);
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(x, y, 6, 0, 2 * Math.PI);
+  ctx.stroke();
+  ctx.restore();
+}
+
+const OVERFLOW_LABELS: Record<OverflowMode, string> = {
+  'hard-clip': 'Clipping',
+  'soft-clip': 'Soft clipping',
+  wrap: 'Wrapping around',
+};
+
+// Marks the converter's full-scale limits and says what happens to the input beyond them
+function drawOverflowIndicator(ctx: CanvasRenderingContext2D, color: string, width: number, centerY: number, amplitude: number, overflow: OverflowMode) {
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1;
+  ctx.setLineDash([6, 3]);
+  [centerY - amplitude, centerY + amplitude].forEach((y) => {
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+  });
+  ctx.fillStyle = color;
+  ctx.font = '600 12px var(--font-sans)';
+  ctx.textAlign = 'left';
+  ctx.fillText(`${OVERFLOW_LABELS[overflow]}: input exceeds full scale`, 8, 38);
+  ctx.restore();
+}
+
+const HISTOGRAM_BINS = 30;
+
+export function WaveformCanvas({ sampleRate, bitDepth, source, zoomLevel = 1, className, type, isPlaying = false, quantizerSettings = DEFAULT_QUANTIZER_SETTINGS, binaryFormat = 'offset-binary', timeOffset = 0, onPan, onZoomAt, onHoverSample, onSelectSample, highlightedSample = null, overlay = null }: WaveformCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const svgRef = useRef<SVGSVGElement>(null);
   const animationRef = useRef<number>();
   const scrollOffsetRef = useRef(0);
+  const dragXRef = useRef<number | null>(null);
+
+  // Samples in view, quantized once per change since noise shaping is sequential
+  const view = useMemo(() => {
+    const getSampleValue = getSourceSignal(source, sampleRate);
+    const firstSample = getFirstSample(timeOffset, sampleRate);
+    const viewSamples = type === 'original' || type === 'binary'
+      ? new Float32Array(0)
+      : sample(getSampleValue, sampleRate, Math.min(MAX_VIEW_SAMPLES, Math.floor(getViewDuration(zoomLevel) * sampleRate) + 1), firstSample);
+    const viewQuantized = quantize(viewSamples, bitDepth, quantizerSettings, firstSample);
+    // Whether any sample in view reaches the quantizer beyond full scale
+    const overflowing = viewSamples.some((value) => Math.abs(value) > 1);
+
+    let overlayView: { firstSample: number; quantized: Float32Array } | null = null;
+    if (overlay && type === 'quantized') {
+      // Band-limited to B's own Nyquist frequency
+      const overlaySignal = getSourceSignal(source, overlay.sampleRate);
+      const overlayFirst = getFirstSample(timeOffset, overlay.sampleRate);
+      const count = Math.min(MAX_VIEW_SAMPLES, Math.floor(getViewDuration(zoomLevel) * overlay.sampleRate) + 1);
+      overlayView = {
+        firstSample: overlayFirst,
+        quantized: quantize(sample(overlaySignal, overlay.sampleRate, count, overlayFirst), overlay.bitDepth, overlay.quantizerSettings, overlayFirst),
+      };
+    }
+
+    return { getSampleValue, firstSample, viewSamples, viewQuantized, overflowing, overlayView };
+  }, [sampleRate, bitDepth, source, type, zoomLevel, timeOffset, quantizerSettings, overlay]);
+
+  // Click-drag panning and mouse-wheel zoom around the cursor
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !onPan || !onZoomAt) return;
+
+    const viewDuration = getViewDuration(zoomLevel);
+
+    const handlePointerDown = (e: PointerEvent) => {
+      dragXRef.current = e.clientX;
+      canvas.setPointerCapture(e.pointerId);
+      canvas.style.cursor = 'grabbing';
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (dragXRef.current === null) return;
+      const width = canvas.getBoundingClientRect().width;
+      const dx = e.clientX - dragXRef.current;
+      dragXRef.current = e.clientX;
+      if (width > 0 && dx !== 0) {
+        onPan(-(dx / width) * viewDuration);
+      }
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      dragXRef.current = null;
+      if (canvas.hasPointerCapture(e.pointerId)) {
+        canvas.releasePointerCapture(e.pointerId);
+      }
+      canvas.style.cursor = 'grab';
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const anchorTime = timeOffset + ((e.clientX - rect.left) / rect.width) * viewDuration;
+      onZoomAt(zoomLevel * Math.exp(-e.deltaY * 0.002), anchorTime);
+    };
+
+    canvas.style.cursor = dragXRef.current === null ? 'grab' : 'grabbing';
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointercancel', handlePointerUp);
+    // Non-passive so the page does not scroll while zooming
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointercancel', handlePointerUp);
+      canvas.removeEventListener('wheel', handleWheel);
+    };
+  }, [zoomLevel, timeOffset, onPan, onZoomAt]);
+
+  // Hovering reports the nearest sample; clicking without dragging selects it
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || (!onHoverSample && !onSelectSample)) return;
+
+    const viewDuration = getViewDuration(zoomLevel);
+    let pressX: number | null = null;
+
+    const sampleAt = (clientX: number) => {
+      const rect = canvas.getBoundingClientRect();
+      const t = timeOffset + ((clientX - rect.left) / rect.width) * viewDuration;
+      return Math.round(t * sampleRate);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      pressX = e.clientX;
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      onHoverSample?.({ sampleIndex: sampleAt(e.clientX), clientX: e.clientX, clientY: e.clientY });
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (pressX !== null && Math.abs(e.clientX - pressX) < CLICK_SLOP_PX) {
+        onSelectSample?.(sampleAt(e.clientX));
+      }
+      pressX = null;
+    };
+
+    const handlePointerLeave = () => onHoverSample?.(null);
+
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointerleave', handlePointerLeave);
+
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointerleave', handlePointerLeave);
+    };
+  }, [zoomLevel, timeOffset, sampleRate, onHoverSample, onSelectSample]);
 
   // For the 'original' type, we show a waveform with sample markers
   useEffect(() => {
@@ -28,6 +229,8 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
     const ctx = canvas.getContext('2d', { alpha: false });
     if (!ctx) return;
 
+    const signal = getSourceSignal(source, sampleRate);
+
     const drawWaveform = () => {
       const dpr = window.devicePixelRatio || 1;
       const rect = canvas.getBoundingClientRect();
@@ -58,18 +261,21 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
       ctx.stroke();
       ctx.setLineDash([]);
 
-      // Draw horizontal quantization level lines (only if not too dense)
-      const quantizationLevels = Math.pow(2, bitDepth);
-      const stepSize = (height * 0.7) / quantizationLevels;
+      // Draw the quantizer's decision thresholds (only if not too dense). There is one fewer
+      // threshold than levels; the density check comes first so deep bit depths never build the list
+      if (getQuantizationLevels(bitDepth) - 1 <= amplitude) {
+        const thresholds = getDecisionThresholds(bitDepth, quantizerSettings);
 
-      // Only draw level lines if there's enough space between them (at least 3 pixels)
-      if (stepSize >= 3) {
+        // Companded thresholds bunch up near zero, so lines closer than 3 pixels to the last one are skipped
         ctx.strokeStyle = borderColor ? `hsl(${borderColor})` : '#555555';
         ctx.lineWidth = 1;
         ctx.setLineDash([4, 2]); // Longer dashes, shorter gaps
 
-        for (let i = 0; i < quantizationLevels; i++) {
-          const yPos = height * 0.15 + i * stepSize;
+        let lastY = Infinity;
+        for (const threshold of thresholds) {
+          const yPos = centerY - threshold * amplitude;
+          if (lastY - yPos < 3) continue;
+          lastY = yPos;
           ctx.beginPath();
           ctx.moveTo(0, yPos);
           ctx.lineTo(width, yPos);
@@ -79,9 +285,9 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
         ctx.setLineDash([]);
       }
 
-      // Display exactly 1 second of the waveform
-      const displayDuration = 1.0; // 1 second
-      const timePerPixel = (displayDuration / zoomLevel) / width;
+      // The 1 second timeline divided by the zoom level, starting at timeOffset
+      const viewDuration = getViewDuration(zoomLevel);
+      const timePerPixel = viewDuration / width;
 
       // Draw the waveform
       const primaryColor = computedStyle.getPropertyValue('--primary');
@@ -89,10 +295,12 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
       ctx.lineWidth = 2;
       ctx.beginPath();
 
+      let overflowing = false;
       for (let x = 0; x < width; x++) {
-        const t = x * timePerPixel;
-        const value = generateWaveform(t, frequency, waveformType);
+        const t = timeOffset + x * timePerPixel;
+        const value = signal(t);
         const y = centerY - value * amplitude;
+        if (Math.abs(value) > 1) overflowing = true;
 
         if (x === 0) {
           ctx.moveTo(x, y);
@@ -113,9 +321,9 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
         ctx.lineWidth = 1;
         ctx.globalAlpha = Math.min(1, pixelsPerSample / 10);
 
-        for (let sampleIndex = 0; sampleIndex * sampleInterval <= displayDuration / zoomLevel; sampleIndex++) {
+        for (let sampleIndex = getFirstSample(timeOffset, sampleRate); sampleIndex * sampleInterval <= timeOffset + viewDuration; sampleIndex++) {
           const t = sampleIndex * sampleInterval;
-          const x = t / timePerPixel;
+          const x = (t - timeOffset) / timePerPixel;
 
           if (x > width) break;
 
@@ -128,12 +336,30 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
         ctx.globalAlpha = 1;
       }
 
+      if (highlightedSample !== null) {
+        const x = (highlightedSample * sampleInterval - timeOffset) / timePerPixel;
+        if (x >= 0 && x <= width) {
+          const fgColor = computedStyle.getPropertyValue('--foreground');
+          const y = centerY - signal(highlightedSample * sampleInterval) * amplitude;
+          drawSampleHighlight(ctx, fgColor ? `hsl(${fgColor})` : '#ffffff', x, y, centerY - amplitude, centerY + amplitude);
+        }
+      }
+
+      if (overflowing) {
+        const chart5Color = computedStyle.getPropertyValue('--chart-5');
+        drawOverflowIndicator(ctx, chart5Color ? `hsl(${chart5Color})` : '#f59e0b', width, centerY, amplitude, quantizerSettings.overflow);
+      }
+
       // Draw label
       const mutedFgColor = computedStyle.getPropertyValue('--muted-foreground');
       ctx.fillStyle = mutedFgColor ? `hsl(${mutedFgColor})` : '#888888';
       ctx.font = '12px var(--font-sans)';
+      const { uploadedAudio } = source;
+      const sourceLabel = uploadedAudio
+        ? `${uploadedAudio.name} (${uploadedAudio.duration.toFixed(2)}s file)`
+        : describeWaveform(source.waveformType, source.frequency, source.testSignal);
       ctx.fillText(
-        `${waveformType.charAt(0).toUpperCase() + waveformType.slice(1)} Wave @ ${frequency} Hz (${(displayDuration / zoomLevel).toFixed(3)}s view)`,
+        `${sourceLabel} (${viewDuration.toFixed(3)}s view from ${timeOffset.toFixed(3)}s)`,
         8,
         20
       );
@@ -164,7 +390,7 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
       window.removeEventListener('resize', handleResize);
     };
 
-  }, [type, sampleRate, bitDepth, frequency, waveformType, zoomLevel]);
+  }, [type, sampleRate, bitDepth, source, zoomLevel, quantizerSettings, timeOffset, highlightedSample]);
 
   if (type === 'original') {
     return (
@@ -204,11 +430,9 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
     let { width, height, centerY, amplitude } = setupCanvas();
 
     // Use the same duration calculation as the original visualizer to sync zoom
-    const displayDuration = 1.0 / zoomLevel; // 1 second divided by zoom level
+    const displayDuration = getViewDuration(zoomLevel);
 
-    const getSampleValue = (t: number): number => {
-      return generateWaveform(t, frequency, waveformType);
-    };
+    const { getSampleValue, firstSample, viewSamples, viewQuantized, overflowing, overlayView } = view;
 
     const drawGrid = () => {
       ctx.strokeStyle = 'hsl(var(--border))';
@@ -229,67 +453,70 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
 
       drawGrid();
 
-      const quantizationLevels = Math.pow(2, bitDepth);
-
-      const quantize = (value: number) => {
-        const normalized = (value + 1) / 2;
-        const quantized = Math.floor(normalized * quantizationLevels);
-        const clamped = Math.max(0, Math.min(quantizationLevels - 1, quantized));
-        return (clamped / (quantizationLevels - 1)) * 2 - 1;
-      };
-
-      // Calculate how many samples fit in the display duration
-      const totalSamples = Math.floor(sampleRate * displayDuration);
       const sampleInterval = 1 / sampleRate; // Time between samples in seconds
       const timePerPixel = displayDuration / width;
-
-      // Draw discrete sample points only
       const computedStyle = getComputedStyle(canvas);
       const chart2Color = computedStyle.getPropertyValue('--chart-2');
-      ctx.fillStyle = chart2Color ? `hsl(${chart2Color})` : '#10b981';
-
-      // Determine point size based on how close samples are
-      const pixelsPerSample = sampleInterval / timePerPixel;
-      const pointSize = Math.max(2, Math.min(8, pixelsPerSample / 3));
-
-      // Only draw samples that would be visible (at least 0.5 pixels apart)
-      if (pixelsPerSample >= 0.5) {
-        for (let sampleIndex = 0; sampleIndex < totalSamples; sampleIndex++) {
-          const t = sampleIndex * sampleInterval;
-          const x = t / timePerPixel;
-
-          if (x > width) break;
-
-          const sampleValue = getSampleValue(t);
-          const quantizedValue = quantize(sampleValue);
-          const y = centerY - quantizedValue * amplitude;
-
+      const chart5Color = computedStyle.getPropertyValue('--chart-5');
+
+      // Draws quantized samples starting at absolute index `first`, taken at `rate`
+      const drawSamples = (values: Float32Array, first: number, rate: number, color: string) => {
+        const interval = 1 / rate;
+        ctx.fillStyle = color;
+
+        // Determine point size based on how close samples are
+        const pixelsPerSample = interval / timePerPixel;
+        const pointSize = Math.max(2, Math.min(8, pixelsPerSample / 3));
+
+        // Only draw samples that would be visible (at least 0.5 pixels apart)
+        if (pixelsPerSample >= 0.5) {
+          for (let i = 0; i < values.length; i++) {
+            const x = ((first + i) * interval - timeOffset) / timePerPixel;
+            if (x > width) break;
+            const y = centerY - values[i] * amplitude;
+
+            ctx.beginPath();
+            ctx.arc(x, y, pointSize, 0, 2 * Math.PI);
+            ctx.fill();
+          }
+        } else {
+          // When samples are too dense, draw as a continuous line
+          ctx.strokeStyle = color;
+          ctx.lineWidth = 2;
           ctx.beginPath();
-          ctx.arc(x, y, pointSize, 0, 2 * Math.PI);
-          ctx.fill();
-        }
-      } else {
-        // When samples are too dense, draw as a continuous line
-        ctx.strokeStyle = chart2Color ? `hsl(${chart2Color})` : '#10b981';
-        ctx.lineWidth = 2;
-        ctx.beginPath();
 
-        for (let x = 0; x < width; x++) {
-          const t = x * timePerPixel;
-          // Find the nearest sample
-          const sampleIndex = Math.floor(t / sampleInterval);
-          const sampleT = sampleIndex * sampleInterval;
-          const sampleValue = getSampleValue(sampleT);
-          const quantizedValue = quantize(sampleValue);
-          const y = centerY - quantizedValue * amplitude;
-
-          if (x === 0) {
-            ctx.moveTo(x, y);
-          } else {
-            ctx.lineTo(x, y);
+          for (let x = 0; x < width; x++) {
+            const t = timeOffset + x * timePerPixel;
+            // Find the nearest sample
+            const sampleIndex = Math.floor(t / interval) - first;
+            const quantizedValue = values[Math.max(0, Math.min(values.length - 1, sampleIndex))] ?? 0;
+            const y = centerY - quantizedValue * amplitude;
+
+            if (x === 0) {
+              ctx.moveTo(x, y);
+            } else {
+              ctx.lineTo(x, y);
+            }
           }
+          ctx.stroke();
         }
-        ctx.stroke();
+      };
+
+      drawSamples(viewQuantized, firstSample, sampleRate, chart2Color ? `hsl(${chart2Color})` : '#10b981');
+      if (overlayView && overlay) {
+        drawSamples(overlayView.quantized, overlayView.firstSample, overlay.sampleRate, chart5Color ? `hsl(${chart5Color} / 0.8)` : 'rgba(245, 158, 11, 0.8)');
+      }
+
+      const highlightedIndex = highlightedSample === null ? -1 : highlightedSample - firstSample;
+      if (highlightedIndex >= 0 && highlightedIndex < viewQuantized.length) {
+        const x = ((firstSample + highlightedIndex) * sampleInterval - timeOffset) / timePerPixel;
+        const fgColor = computedStyle.getPropertyValue('--foreground');
+        const y = centerY - viewQuantized[highlightedIndex] * amplitude;
+        drawSampleHighlight(ctx, fgColor ? `hsl(${fgColor})` : '#ffffff', x, y, centerY - amplitude, centerY + amplitude);
+      }
+
+      if (overflowing) {
+        drawOverflowIndicator(ctx, chart5Color ? `hsl(${chart5Color})` : '#f59e0b', width, centerY, amplitude, quantizerSettings.overflow);
       }
 
       // Draw label
@@ -297,11 +524,18 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
       ctx.fillStyle = mutedFgColor ? `hsl(${mutedFgColor})` : '#888888';
       ctx.font = '12px var(--font-sans)';
       ctx.textAlign = 'left';
-      ctx.fillText(
-        `Discrete samples @ ${sampleRate} Hz (${displayDuration.toFixed(3)}s view)`,
-        8,
-        20
-      );
+      if (overlay) {
+        ctx.fillStyle = chart2Color ? `hsl(${chart2Color})` : '#10b981';
+        ctx.fillText(`A: ${sampleRate} Hz, ${bitDepth}-bit`, 8, 20);
+        ctx.fillStyle = chart5Color ? `hsl(${chart5Color})` : '#f59e0b';
+        ctx.fillText(`B: ${overlay.sampleRate} Hz, ${overlay.bitDepth}-bit`, 160, 20);
+      } else {
+        ctx.fillText(
+          `Discrete samples @ ${sampleRate} Hz (${displayDuration.toFixed(3)}s view)`,
+          8,
+          20
+        );
+      }
     };
 
     const drawBinaryEncoding = (time: number) => {
@@ -313,15 +547,10 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
         ctx.fillRect(0, 0, width, height);
       }
 
-      const quantizationLevels = Math.pow(2, bitDepth);
-
-      const quantize = (value: number) => {
-        const normalized = (value + 1) / 2;
-        const quantized = Math.floor(normalized * quantizationLevels);
-        return Math.max(0, Math.min(quantizationLevels - 1, quantized));
-      };
+      const quantizationLevels = getQuantizationLevels(bitDepth);
 
-      const binaryWidth = Math.max(8, Math.min(120, bitDepth * 8));
+      const digits = formatCodeword(0, bitDepth, binaryFormat).length;
+      const binaryWidth = Math.max(8, Math.min(120, digits * 8));
       const spacing = 4;
       const maxValues = Math.floor(width / (binaryWidth + spacing));
 
@@ -329,7 +558,8 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
       if (isPlaying) {
         scrollOffsetRef.current += sampleRate / 60;
       }
-      const startIndex = Math.floor(scrollOffsetRef.current);
+      // Until playback scrolls the stream, it starts on the same sample as the other panels
+      const startIndex = getFirstSample(timeOffset, sampleRate) + Math.floor(scrollOffsetRef.current);
 
       // Clear the canvas with the computed background color
       const computedStyle = getComputedStyle(canvas);
@@ -337,17 +567,20 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
       ctx.fillStyle = bgColor ? `hsl(${bgColor})` : '#ffffff';
       ctx.fillRect(0, 0, width, height);
 
-      ctx.font = `${Math.min(14, binaryWidth / bitDepth)}px var(--font-mono)`;
+      const fontSize = Math.min(14, binaryWidth / digits);
+      ctx.font = `${fontSize}px var(--font-mono)`;
       ctx.textAlign = 'left';
       ctx.textBaseline = 'middle';
 
-      for (let i = 0; i < maxValues; i++) {
-        const sampleIndex = startIndex + i;
-        const t = sampleIndex / sampleRate;
-        const sampleValue = getSampleValue(t);
-        const quantizedValue = quantize(sampleValue);
+      const fgColor = computedStyle.getPropertyValue('--foreground');
+      const foregroundColor = fgColor ? `hsl(${fgColor})` : '#ffffff';
+
+      const codes = encode(sample(getSampleValue, sampleRate, maxValues, startIndex), bitDepth, quantizerSettings, startIndex);
+
+      for (let i = 0; i < codes.length; i++) {
+        const quantizedValue = codes[i];
 
-        const binary = quantizedValue.toString(2).padStart(bitDepth, '0');
+        const binary = formatCodeword(quantizedValue, bitDepth, binaryFormat, quantizerSettings.characteristic);
 
         const hue = (quantizedValue / quantizationLevels) * 300;
         ctx.fillStyle = `hsl(${hue}, 70%, 55%)`;
@@ -358,17 +591,156 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
 
         ctx.save();
         ctx.globalAlpha = alpha;
-        ctx.fillText(binary, x, centerY);
+        // The MSB (sign bit) is drawn bold in the foreground color
+        ctx.fillText(binary.slice(1), x + ctx.measureText(binary[0]).width, centerY);
+        ctx.fillStyle = foregroundColor;
+        ctx.font = `bold ${fontSize}px var(--font-mono)`;
+        ctx.fillText(binary[0], x, centerY);
         ctx.restore();
+
+        if (startIndex + i === highlightedSample) {
+          ctx.strokeStyle = foregroundColor;
+          ctx.lineWidth = 1.5;
+          ctx.strokeRect(x - 3, centerY - fontSize, binaryWidth + 2, fontSize * 2);
+        }
       }
 
       const mutedFgColor = computedStyle.getPropertyValue('--muted-foreground');
       ctx.fillStyle = mutedFgColor ? `hsl(${mutedFgColor})` : '#888888';
       ctx.font = '11px var(--font-sans)';
       ctx.textAlign = 'left';
-      ctx.fillText(`${quantizationLevels} levels (${bitDepth}-bit)`, 8, 20);
+      const compandingLabel = quantizerSettings.companding === 'mu-law' ? ', μ-law codewords'
+        : quantizerSettings.companding === 'a-law' ? ', A-law codewords'
+        : '';
+      ctx.fillText(`${quantizationLevels} levels (${bitDepth}-bit${compandingLabel}) · ${BINARY_FORMAT_LABELS[binaryFormat]}, MSB in bold`, 8, 20);
     };
 
+    // Quantization error (quantized - continuous) in LSBs, with a histogram on the right
+    const drawQuantizationError = () => {
+      const computedStyle = getComputedStyle(canvas);
+      const bgColor = computedStyle.getPropertyValue('--background');
+      ctx.fillStyle = bgColor ? `hsl(${bgColor})` : '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+
+      const plotWidth = width * 0.75;
+      const histogramX = plotWidth + 8;
+      const histogramWidth = width - histogramX - 8;
+      const lsbSize = getLsbSize(bitDepth, quantizerSettings.characteristic);
+      // ±1 LSB fills the same height as full scale on the other canvases
+      const yForError = (errorLsb: number) => centerY - Math.max(-1.5, Math.min(1.5, errorLsb)) * amplitude;
+
+      const sampleInterval = 1 / sampleRate;
+      const timePerPixel = displayDuration / plotWidth;
+      const pixelsPerSample = sampleInterval / timePerPixel;
+      const samples = viewSamples;
+      const quantized = viewQuantized;
+      const errors = new Float32Array(samples.length);
+      for (let i = 0; i < samples.length; i++) {
+        errors[i] = (quantized[i] - samples[i]) / lsbSize;
+      }
+
+      // Reference lines at 0 and ±½ LSB
+      const borderColor = computedStyle.getPropertyValue('--border');
+      ctx.strokeStyle = borderColor ? `hsl(${borderColor})` : '#555555';
+      ctx.lineWidth = 0.5;
+      ctx.setLineDash([2, 4]);
+      [-0.5, 0, 0.5].forEach((lsb) => {
+        ctx.beginPath();
+        ctx.moveTo(0, yForError(lsb));
+        ctx.lineTo(plotWidth, yForError(lsb));
+        ctx.stroke();
+      });
+      ctx.setLineDash([]);
+
+      const chart5Color = computedStyle.getPropertyValue('--chart-5');
+      const errorColor = chart5Color ? `hsl(${chart5Color})` : '#f59e0b';
+      ctx.fillStyle = errorColor;
+      ctx.strokeStyle = errorColor;
+
+      if (pixelsPerSample >= 0.5) {
+        const pointSize = Math.max(1.5, Math.min(4, pixelsPerSample / 4));
+        for (let i = 0; i < errors.length; i++) {
+          const x = ((firstSample + i) * sampleInterval - timeOffset) / timePerPixel;
+          if (x > plotWidth) break;
+          ctx.beginPath();
+          ctx.arc(x, yForError(errors[i]), pointSize, 0, 2 * Math.PI);
+          ctx.fill();
+        }
+      } else {
+        // Too dense for points: draw the error of the nearest sample per pixel
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let x = 0; x < plotWidth; x++) {
+          const i = Math.min(errors.length - 1, Math.floor((x * timePerPixel) / sampleInterval));
+          if (x === 0) {
+            ctx.moveTo(x, yForError(errors[i]));
+          } else {
+            ctx.lineTo(x, yForError(errors[i]));
+          }
+        }
+        ctx.stroke();
+      }
+
+      const highlightedIndex = highlightedSample === null ? -1 : highlightedSample - firstSample;
+      if (highlightedIndex >= 0 && highlightedIndex < errors.length) {
+        const x = ((firstSample + highlightedIndex) * sampleInterval - timeOffset) / timePerPixel;
+        if (x <= plotWidth) {
+          const fgColor = computedStyle.getPropertyValue('--foreground');
+          drawSampleHighlight(ctx, fgColor ? `hsl(${fgColor})` : '#ffffff', x, yForError(errors[highlightedIndex]), yForError(1.5), yForError(-1.5));
+        }
+      }
+
+      // Histogram of the error over [-1.5, 1.5] LSB
+      const bins = new Array(HISTOGRAM_BINS).fill(0);
+      for (let i = 0; i < errors.length; i++) {
+        const bin = Math.floor(((errors[i] + 1.5) / 3) * HISTOGRAM_BINS);
+        bins[Math.max(0, Math.min(HISTOGRAM_BINS - 1, bin))]++;
+      }
+      const maxCount = Math.max(1, ...bins);
+      const binHeight = (yForError(-1.5) - yForError(1.5)) / HISTOGRAM_BINS;
+
+      ctx.globalAlpha = 0.8;
+      bins.forEach((count, bin) => {
+        const barWidth = (count / maxCount) * histogramWidth;
+        // Bin 0 holds the most negative errors, drawn at the bottom
+        const y = yForError(1.5) + (HISTOGRAM_BINS - 1 - bin) * binHeight;
+        ctx.fillRect(histogramX, y, barWidth, Math.max(1, binHeight - 1));
+      });
+      ctx.globalAlpha = 1;
+
+      const mutedFgColor = computedStyle.getPropertyValue('--muted-foreground');
+      ctx.fillStyle = mutedFgColor ? `hsl(${mutedFgColor})` : '#888888';
+      ctx.font = '10px var(--font-mono)';
+      ctx.textAlign = 'right';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('+½ LSB', plotWidth - 4, yForError(0.5) - 8);
+      ctx.fillText('-½ LSB', plotWidth - 4, yForError(-0.5) + 8);
+
+      let minError = Infinity;
+      let maxError = -Infinity;
+      for (let i = 0; i < errors.length; i++) {
+        minError = Math.min(minError, errors[i]);
+        maxError = Math.max(maxError, errors[i]);
+      }
+
+      ctx.font = '12px var(--font-sans)';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'alphabetic';
+      ctx.fillText(
+        `Quantization error @ ${bitDepth}-bit (${errors.length > 0 ? `${minError.toFixed(2)} to ${maxError.toFixed(2)} LSB` : 'no samples'})`,
+        8,
+        20
+      );
+      ctx.textAlign = 'center';
+      ctx.fillText('Histogram', histogramX + histogramWidth / 2, 20);
+    };
+
+    if (type === 'error') {
+      // The error plot is static, so it only needs redrawing when its inputs change
+      drawQuantizationError();
+      return;
+    }
+
     const animate = () => {
       const time = Date.now() / 1000;
 
@@ -388,7 +760,7 @@ export function WaveformCanvas({ sampleRate, bitDepth, frequency, waveformType,
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [sampleRate, bitDepth, frequency, waveformType, type, isPlaying, zoomLevel]);
+  }, [view, sampleRate, bitDepth, type, isPlaying, zoomLevel, timeOffset, quantizerSettings, binaryFormat, highlightedSample, overlay]);
 
   return (
     <canvas
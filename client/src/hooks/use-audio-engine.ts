@@ -0,0 +1,330 @@
+import { MutableRefObject, useEffect, useRef, useState } from 'react';
+import { HarmonicPartial, ReconstructionMode, SamplingConfig, isPeriodicWaveform } from '@shared/audio';
+import { Signal, bandLimitedHarmonics, dbToGain, sample } from '@shared/dsp';
+import { getLoopDuration } from '@shared/test-signals';
+import type { BitcrusherMessage } from '@/audio/bitcrusher-processor';
+import bitcrusherProcessorUrl from '@/audio/bitcrusher-processor.ts?worker&url';
+import { SourceSettings, getSourceSignal } from '@/audio/source-signal';
+import type { ConfigSlot } from '@/lib/comparison';
+
+interface AudioEngineOptions {
+  configA: SamplingConfig;
+  configB: SamplingConfig;
+  // Whether configuration B is being compared; its chain only runs while it is
+  comparing: boolean;
+  // Configuration heard during playback
+  listening: ConfigSlot;
+  // An uploaded file plays instead of the generated waveform
+  source: SourceSettings;
+  reconstructionMode: ReconstructionMode;
+  isPlaying: boolean;
+}
+
+// anti-alias filter -> crusher -> reconstruction filters -> gain, one per configuration
+interface CrusherChain {
+  antiAliasFilter: BiquadFilterNode;
+  crusher: AudioWorkletNode;
+  reconstructionFilters: BiquadFilterNode[];
+  gainNode: GainNode;
+}
+
+interface AudioGraph {
+  ctx: AudioContext;
+  oscillator: OscillatorNode;
+  // Input gain the source plays into, and the DC offset added after it
+  inputGain: GainNode;
+  dcOffset: ConstantSourceNode;
+  chains: Record<ConfigSlot, CrusherChain>;
+}
+
+const PLAYBACK_GAIN = 0.3;
+const SLOTS: ConfigSlot[] = ['A', 'B'];
+
+function applySampleRate(ctx: AudioContext, chain: CrusherChain, rate: number) {
+  const { crusher, antiAliasFilter, reconstructionFilters } = chain;
+  const nyquist = rate / 2;
+  // Biquad cutoffs cannot exceed the context's own Nyquist frequency
+  const maxCutoff = ctx.sampleRate / 2;
+
+  crusher.parameters.get('targetSampleRate')?.setValueAtTime(rate, ctx.currentTime);
+  antiAliasFilter.frequency.setValueAtTime(Math.min(maxCutoff, nyquist * 0.8), ctx.currentTime);
+  reconstructionFilters.forEach((filter) => {
+    filter.frequency.setValueAtTime(Math.min(maxCutoff, nyquist * 0.9), ctx.currentTime);
+  });
+}
+
+/**
+ * PeriodicWave for a set of partials. Normalization is left to the dsp
+ * helpers that chose the partials, so playback has the same level as the canvases.
+ */
+function createHarmonicWave(ctx: AudioContext, partials: HarmonicPartial[]): PeriodicWave {
+  const size = Math.max(1, ...partials.map((partial) => partial.harmonic)) + 1;
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  // a·sin(nωt + φ) = a·sin(φ)·cos(nωt) + a·cos(φ)·sin(nωt)
+  partials.forEach(({ harmonic, amplitude, phase }) => {
+    real[harmonic] += amplitude * Math.sin(phase);
+    imag[harmonic] += amplitude * Math.cos(phase);
+  });
+  return ctx.createPeriodicWave(real, imag, { disableNormalization: true });
+}
+
+// `duration` seconds of a signal, which should loop cleanly at that length
+function renderSignal(ctx: AudioContext, signal: Signal, duration: number): AudioBuffer {
+  const length = Math.max(1, Math.round(duration * ctx.sampleRate));
+  const buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+  buffer.getChannelData(0).set(sample(signal, ctx.sampleRate, length));
+  return buffer;
+}
+
+function postToCrusher(chain: CrusherChain, message: BitcrusherMessage) {
+  chain.crusher.port.postMessage(message);
+}
+
+function createChain(ctx: AudioContext): CrusherChain {
+  // Anti-aliasing filter BEFORE downsampling to prevent aliasing
+  const antiAliasFilter = ctx.createBiquadFilter();
+  antiAliasFilter.type = 'lowpass';
+  antiAliasFilter.Q.value = 0.707; // Butterworth response
+
+  const crusher = new AudioWorkletNode(ctx, 'bitcrusher', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    outputChannelCount: [1],
+    // The worklet crushes one channel, so stereo uploads are mixed down rather than only the left one heard
+    channelCount: 1,
+    channelCountMode: 'explicit',
+  });
+
+  // Reconstruction filters AFTER the crusher remove imaging artifacts
+  // left by the stepped output before we hear them
+  const reconstructionFilters = [0.5412, 1.3065].map((q) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.Q.value = q; // 4th-order Butterworth stage
+    return filter;
+  });
+
+  const gainNode = ctx.createGain();
+  gainNode.gain.value = 0;
+
+  antiAliasFilter.connect(crusher);
+  crusher.connect(reconstructionFilters[0]);
+  reconstructionFilters[0].connect(reconstructionFilters[1]);
+  reconstructionFilters[1].connect(gainNode);
+  gainNode.connect(ctx.destination);
+
+  return { antiAliasFilter, crusher, reconstructionFilters, gainNode };
+}
+
+// Keeps one chain's crusher and filters in step with its configuration
+function useCrusherConfig(
+  graphRef: MutableRefObject<AudioGraph | null>,
+  graphReady: boolean,
+  slot: ConfigSlot,
+  config: SamplingConfig,
+) {
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (graph) {
+      applySampleRate(graph.ctx, graph.chains[slot], config.sampleRate);
+    }
+  }, [graphReady, config.sampleRate]);
+
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (graph) {
+      graph.chains[slot].crusher.parameters.get('bitDepth')?.setValueAtTime(config.bitDepth, graph.ctx.currentTime);
+    }
+  }, [graphReady, config.bitDepth]);
+
+  useEffect(() => {
+    if (graphRef.current) {
+      postToCrusher(graphRef.current.chains[slot], { type: 'quantizer', settings: config.quantizerSettings });
+    }
+  }, [graphReady, config.quantizerSettings]);
+}
+
+/**
+ * Owns a single AudioContext and the crusher graph for the lifetime of the component.
+ * Setting changes are applied to the running nodes instead of rebuilding the graph.
+ *
+ * Both configurations of an A/B comparison run side by side and switching
+ * between them only swaps their output gains, so the toggle is instant.
+ */
+export function useAudioEngine(options: AudioEngineOptions) {
+  const { configA, configB, comparing, listening, source, reconstructionMode, isPlaying } = options;
+  const { frequency, waveformType, harmonics, oscillatorMode, testSignal, input } = source;
+  const graphRef = useRef<AudioGraph | null>(null);
+  // Effects re-run once the graph has been built asynchronously
+  const [graphReady, setGraphReady] = useState(false);
+
+  useEffect(() => {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    // Always create AudioContext at hardware rate for proper downsampling
+    // The crusher will handle resampling to the desired sample rate
+    const ctx: AudioContext = new AudioContextClass();
+    let cancelled = false;
+
+    ctx.audioWorklet.addModule(bitcrusherProcessorUrl).then(() => {
+      if (cancelled) return;
+
+      const oscillator = ctx.createOscillator();
+      oscillator.start();
+      const inputGain = ctx.createGain();
+      const dcOffset = ctx.createConstantSource();
+      // Constant sources default to an offset of 1
+      dcOffset.offset.value = 0;
+      dcOffset.start();
+
+      // Chain: source -> input gain (+ DC offset) -> anti-alias filter -> crusher
+      //        (downsample + quantize + reconstruct) -> reconstruction filters -> gain -> output
+      // The source (oscillator or buffer) and all settings are applied by the effects below
+      graphRef.current = { ctx, oscillator, inputGain, dcOffset, chains: { A: createChain(ctx), B: createChain(ctx) } };
+      setGraphReady(true);
+    }).catch((err) => {
+      console.error('Failed to load bitcrusher worklet:', err);
+    });
+
+    return () => {
+      cancelled = true;
+      const graph = graphRef.current;
+      graphRef.current = null;
+      setGraphReady(false);
+
+      if (graph) {
+        try {
+          graph.oscillator.stop();
+          graph.dcOffset.stop();
+        } catch (e) {
+        }
+      }
+
+      if (ctx.state !== 'closed') {
+        ctx.close().catch(() => {});
+      }
+    };
+  }, []);
+
+  useCrusherConfig(graphRef, graphReady, 'A', configA);
+  useCrusherConfig(graphRef, graphReady, 'B', configB);
+
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (graph) {
+      graph.oscillator.frequency.setValueAtTime(frequency, graph.ctx.currentTime);
+    }
+  }, [graphReady, frequency]);
+
+  // Input gain and DC offset sit ahead of both chains; DC passes the anti-alias filter unchanged
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (graph) {
+      graph.inputGain.gain.setValueAtTime(dbToGain(input.gainDb), graph.ctx.currentTime);
+      graph.dcOffset.offset.setValueAtTime(input.dcOffset, graph.ctx.currentTime);
+    }
+  }, [graphReady, input.gainDb, input.dcOffset]);
+
+  // Band-limited waveforms play on the oscillator, keeping only the partials
+  // below the Nyquist frequency of the configuration being listened to
+  const listenedRate = (comparing && listening === 'B' ? configB : configA).sampleRate;
+  const playsOnOscillator = oscillatorMode === 'band-limited' && isPeriodicWaveform(waveformType);
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph || !playsOnOscillator) return;
+
+    const partials = bandLimitedHarmonics(waveformType, frequency, listenedRate / 2, harmonics);
+    graph.oscillator.setPeriodicWave(createHarmonicWave(graph.ctx, partials));
+  }, [graphReady, playsOnOscillator, waveformType, harmonics, frequency, listenedRate]);
+
+  // The oscillator can only play band-limited waveforms, so naive ones and
+  // test signals are rendered offline from the same signal the canvases draw
+  const [renderedBuffer, setRenderedBuffer] = useState<AudioBuffer | null>(null);
+  // Impulses are one sample of the listened rate wide; nothing else rendered depends on the rate
+  const renderRate = waveformType === 'impulse' ? listenedRate : null;
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph || playsOnOscillator) {
+      setRenderedBuffer(null);
+      return;
+    }
+    // Gain and offset are applied by the graph, as they are to the oscillator and files
+    const shifted = { ...input, gainDb: 0, dcOffset: 0 };
+    const signal = getSourceSignal({ ...source, uploadedAudio: null, input: shifted }, renderRate ?? graph.ctx.sampleRate);
+    setRenderedBuffer(renderSignal(graph.ctx, signal, getLoopDuration(waveformType, frequency, testSignal)));
+  }, [graphReady, playsOnOscillator, oscillatorMode, waveformType, harmonics, testSignal, input.phase, frequency, renderRate]);
+
+  const sourceBuffer = source.uploadedAudio?.buffer ?? renderedBuffer;
+
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (graph) {
+      SLOTS.forEach((slot) => postToCrusher(graph.chains[slot], { type: 'reconstruction', mode: reconstructionMode }));
+    }
+  }, [graphReady, reconstructionMode]);
+
+  // Only the chain being listened to is audible
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph) return;
+
+    const { ctx } = graph;
+    SLOTS.forEach((slot) => {
+      const audible = isPlaying && slot === (comparing ? listening : 'A');
+      graph.chains[slot].gainNode.gain.setValueAtTime(audible ? PLAYBACK_GAIN : 0, ctx.currentTime);
+    });
+
+    // Resume audio context if it's suspended (browser autoplay policy)
+    if (isPlaying && ctx.state === 'suspended') {
+      ctx.resume().catch((err) => {
+        console.error('Failed to resume audio context:', err);
+      });
+    }
+  }, [graphReady, isPlaying, comparing, listening]);
+
+  // The input stage feeds the chains; B's chain is idle unless comparing
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph) return;
+
+    (comparing ? SLOTS : (['A'] as ConfigSlot[])).forEach((slot) => {
+      graph.inputGain.connect(graph.chains[slot].antiAliasFilter);
+      graph.dcOffset.connect(graph.chains[slot].antiAliasFilter);
+    });
+    return () => {
+      graph.inputGain.disconnect();
+      graph.dcOffset.disconnect();
+    };
+  }, [graphReady, comparing]);
+
+  // The oscillator feeds the input only while no buffer is playing
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph || sourceBuffer) return;
+
+    graph.oscillator.connect(graph.inputGain);
+    return () => {
+      graph.oscillator.disconnect();
+    };
+  }, [graphReady, sourceBuffer]);
+
+  // Restart the file or rendered waveform from the top on each play so playback matches the canvases
+  useEffect(() => {
+    const graph = graphRef.current;
+    if (!graph || !sourceBuffer || !isPlaying) return;
+
+    const source = graph.ctx.createBufferSource();
+    source.buffer = sourceBuffer;
+    source.loop = true;
+    source.connect(graph.inputGain);
+    source.start();
+
+    return () => {
+      try {
+        source.stop();
+      } catch (e) {
+      }
+      source.disconnect();
+    };
+  }, [graphReady, sourceBuffer, isPlaying]);
+}
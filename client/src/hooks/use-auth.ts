@@ -0,0 +1,53 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { InsertUser, PublicUser } from '@shared/schema';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+const USER_KEY = ['/api/user'];
+
+type LoginData = Pick<InsertUser, 'username' | 'password'>;
+
+// Everything stored per user has to be refetched when the account changes
+function setCurrentUser(user: PublicUser | null) {
+  queryClient.setQueryData(USER_KEY, user);
+  queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] !== USER_KEY[0] });
+}
+
+/**
+ * The signed-in user (null when signed out) and the mutations that change it.
+ */
+export function useAuth() {
+  const { toast } = useToast();
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: USER_KEY,
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      const res = await apiRequest('POST', '/api/login', credentials);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: setCurrentUser,
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (newUser: InsertUser) => {
+      const res = await apiRequest('POST', '/api/register', newUser);
+      return (await res.json()) as PublicUser;
+    },
+    onSuccess: setCurrentUser,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/logout');
+    },
+    onSuccess: () => setCurrentUser(null),
+    onError: (err: Error) => {
+      toast({ title: 'Could not sign out', description: err.message, variant: 'destructive' });
+    },
+  });
+
+  return { user, isLoading, loginMutation, registerMutation, logoutMutation };
+}
@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ShareableSettings } from '@shared/schema';
+import { CLASSROOM_PATH, ClassroomClientMessage, ClassroomServerMessage } from '@shared/classroom';
+
+export type ClassroomRole = 'teacher' | 'student';
+
+export interface ClassroomState {
+  role: ClassroomRole | null;
+  code: string | null;
+  // False while the socket is down and being retried
+  connected: boolean;
+  studentCount: number;
+  teacherConnected: boolean;
+  error: string | null;
+}
+
+interface UseClassroomOptions {
+  // Called with each settings broadcast while in a room as a student
+  onTeacherSettings: (settings: ShareableSettings) => void;
+}
+
+const IDLE_STATE: ClassroomState = {
+  role: null,
+  code: null,
+  connected: false,
+  studentCount: 0,
+  teacherConnected: false,
+  error: null,
+};
+
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 10000;
+
+function getClassroomUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${CLASSROOM_PATH}`;
+}
+
+/**
+ * Membership of a classroom room. The socket is only open while hosting or
+ * joined; when it drops it is reopened with backoff and the room rejoined.
+ */
+export function useClassroom({ onTeacherSettings }: UseClassroomOptions) {
+  const [state, setState] = useState<ClassroomState>(IDLE_STATE);
+  const socketRef = useRef<WebSocket | null>(null);
+  const reconnectTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const attemptsRef = useRef(0);
+  // What to send on every (re)connect: the host or join request for the room
+  const greetingRef = useRef<ClassroomClientMessage | null>(null);
+  // Whether the server has confirmed the greeting on the current connection
+  const inRoomRef = useRef(false);
+  // Re-sent after the teacher reconnects so students catch up
+  const lastBroadcastRef = useRef<ShareableSettings | null>(null);
+  const onTeacherSettingsRef = useRef(onTeacherSettings);
+  onTeacherSettingsRef.current = onTeacherSettings;
+
+  const send = (message: ClassroomClientMessage) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  };
+
+  const disconnect = useCallback(() => {
+    greetingRef.current = null;
+    inRoomRef.current = false;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+  }, []);
+
+  const handleMessage = (message: ClassroomServerMessage) => {
+    switch (message.type) {
+      case 'hosted':
+        inRoomRef.current = true;
+        greetingRef.current = { type: 'host', resume: { code: message.code, hostToken: message.hostToken } };
+        setState((prev) => ({ ...prev, role: 'teacher', code: message.code, studentCount: message.studentCount, error: null }));
+        if (lastBroadcastRef.current) {
+          send({ type: 'settings', settings: lastBroadcastRef.current });
+        }
+        break;
+      case 'joined':
+        inRoomRef.current = true;
+        setState((prev) => ({ ...prev, role: 'student', code: message.code, teacherConnected: message.teacherConnected, error: null }));
+        if (message.settings) {
+          onTeacherSettingsRef.current(message.settings);
+        }
+        break;
+      case 'settings':
+        onTeacherSettingsRef.current(message.settings);
+        break;
+      case 'students':
+        setState((prev) => ({ ...prev, studentCount: message.studentCount }));
+        break;
+      case 'teacher':
+        setState((prev) => ({ ...prev, teacherConnected: message.connected }));
+        break;
+      case 'closed':
+        disconnect();
+        setState({ ...IDLE_STATE, error: 'The teacher ended the classroom' });
+        break;
+      case 'error':
+        // A rejected greeting (unknown code, expired room) leaves nothing to retry
+        if (!inRoomRef.current) {
+          disconnect();
+          setState({ ...IDLE_STATE, error: message.message });
+        } else {
+          setState((prev) => ({ ...prev, error: message.message }));
+        }
+        break;
+    }
+  };
+
+  const connect = () => {
+    const socket = new WebSocket(getClassroomUrl());
+    socketRef.current = socket;
+
+    socket.onopen = () => {
+      attemptsRef.current = 0;
+      setState((prev) => ({ ...prev, connected: true }));
+      if (greetingRef.current) {
+        socket.send(JSON.stringify(greetingRef.current));
+      }
+    };
+
+    socket.onmessage = (event) => {
+      handleMessage(JSON.parse(event.data) as ClassroomServerMessage);
+    };
+
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return;
+      socketRef.current = null;
+      inRoomRef.current = false;
+      setState((prev) => ({ ...prev, connected: false }));
+      if (!greetingRef.current) return;
+
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attemptsRef.current);
+      attemptsRef.current += 1;
+      reconnectTimerRef.current = setTimeout(connect, delay);
+    };
+  };
+
+  const start = (greeting: ClassroomClientMessage) => {
+    disconnect();
+    greetingRef.current = greeting;
+    attemptsRef.current = 0;
+    setState({ ...IDLE_STATE, role: greeting.type === 'host' ? 'teacher' : 'student' });
+    connect();
+  };
+
+  const host = () => {
+    start({ type: 'host' });
+  };
+
+  const join = (code: string) => {
+    start({ type: 'join', code: code.trim().toUpperCase() });
+  };
+
+  const leave = () => {
+    send({ type: 'leave' });
+    disconnect();
+    lastBroadcastRef.current = null;
+    setState(IDLE_STATE);
+  };
+
+  // Teachers call this on every settings change
+  const broadcast = (settings: ShareableSettings) => {
+    lastBroadcastRef.current = settings;
+    send({ type: 'settings', settings });
+  };
+
+  useEffect(() => disconnect, [disconnect]);
+
+  return { state, host, join, leave, broadcast };
+}
@@ -0,0 +1,59 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import type { InsertLessonProgress, LessonProgress } from '@shared/schema';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+
+export type LessonProgressMap = Record<string, Pick<InsertLessonProgress, 'completedSteps' | 'completed'>>;
+
+const PROGRESS_KEY = ['/api/lesson-progress'];
+// Signed-out progress is kept in the browser instead
+const STORAGE_KEY = 'lesson-progress';
+
+function readLocalProgress(): LessonProgressMap {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Lesson progress of the signed-in user from the server, or of this browser
+ * when signed out.
+ */
+export function useLessonProgress() {
+  const { user } = useAuth();
+  const [localProgress, setLocalProgress] = useState(readLocalProgress);
+
+  const { data: serverProgress } = useQuery<LessonProgress[]>({
+    queryKey: PROGRESS_KEY,
+    enabled: user !== null,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ lessonId, ...progress }: InsertLessonProgress) =>
+      apiRequest('PUT', `/api/lesson-progress/${lessonId}`, progress),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: PROGRESS_KEY }),
+  });
+
+  const progress: LessonProgressMap = user
+    ? Object.fromEntries((serverProgress ?? []).map((entry) => [
+      entry.lessonId,
+      { completedSteps: entry.completedSteps, completed: entry.completedAt !== null },
+    ]))
+    : localProgress;
+
+  const saveProgress = (entry: InsertLessonProgress) => {
+    if (user) {
+      saveMutation.mutate(entry);
+      return;
+    }
+    const { lessonId, ...rest } = entry;
+    const next = { ...localProgress, [lessonId]: rest };
+    setLocalProgress(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  return { progress, saveProgress };
+}
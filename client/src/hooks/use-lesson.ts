@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import type { ShareableSettings } from '@shared/schema';
+import type { Lesson, LessonContext } from '@/lessons/types';
+import { useLessonProgress } from '@/hooks/use-lesson-progress';
+
+interface UseLessonOptions {
+  // Current settings and metrics, for checkpoints
+  context: LessonContext;
+  onApplySettings: (settings: Partial<ShareableSettings>) => void;
+}
+
+/**
+ * Runs one lesson at a time: applies each step's settings on entering it,
+ * holds the student on a step until its checkpoint is met and records how far
+ * they got.
+ */
+export function useLesson({ context, onApplySettings }: UseLessonOptions) {
+  const { progress, saveProgress } = useLessonProgress();
+  const [active, setActive] = useState<{ lesson: Lesson; stepIndex: number } | null>(null);
+
+  const step = active ? active.lesson.steps[active.stepIndex] : null;
+  const checkpointMet = !step?.checkpoint || step.checkpoint.check(context);
+
+  const goTo = (lesson: Lesson, stepIndex: number, baseSettings?: Partial<ShareableSettings>) => {
+    setActive({ lesson, stepIndex });
+    const settings = { ...baseSettings, ...lesson.steps[stepIndex].settings };
+    if (Object.keys(settings).length > 0) {
+      onApplySettings(settings);
+    }
+  };
+
+  // Unfinished lessons resume at the first step not yet completed
+  const start = (lesson: Lesson) => {
+    const saved = progress[lesson.id];
+    const resumeAt = saved && !saved.completed ? Math.min(saved.completedSteps, lesson.steps.length - 1) : 0;
+    // Later steps build on the settings of the first one
+    goTo(lesson, resumeAt, lesson.steps[0].settings);
+  };
+
+  const next = () => {
+    if (!active || !checkpointMet) return;
+    const { lesson, stepIndex } = active;
+    const saved = progress[lesson.id];
+    const isLast = stepIndex === lesson.steps.length - 1;
+
+    saveProgress({
+      lessonId: lesson.id,
+      completedSteps: Math.max(saved?.completedSteps ?? 0, stepIndex + 1),
+      completed: isLast || (saved?.completed ?? false),
+    });
+
+    if (isLast) {
+      setActive(null);
+    } else {
+      goTo(lesson, stepIndex + 1);
+    }
+  };
+
+  const back = () => {
+    if (active && active.stepIndex > 0) {
+      goTo(active.lesson, active.stepIndex - 1);
+    }
+  };
+
+  const exit = () => setActive(null);
+
+  return {
+    lesson: active?.lesson ?? null,
+    stepIndex: active?.stepIndex ?? 0,
+    step,
+    checkpointMet,
+    progress,
+    start,
+    next,
+    back,
+    exit,
+  };
+}
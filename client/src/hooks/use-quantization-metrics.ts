@@ -0,0 +1,47 @@
+import { useMemo } from 'react';
+import { QuantizerSettings, isPeriodicWaveform } from '@shared/audio';
+import { QuantizationMetrics, measureQuantization, quantize, sample } from '@shared/dsp';
+import { SourceSettings, getSourceSignal } from '@/audio/source-signal';
+import { getFirstSample, getViewDuration } from '@/lib/timeline';
+
+interface QuantizationMetricsOptions {
+  sampleRate: number;
+  bitDepth: number;
+  source: SourceSettings;
+  quantizerSettings: QuantizerSettings;
+  zoomLevel: number;
+  timeOffset: number;
+}
+
+// Narrow views are padded so THD has enough frequency resolution; wide ones are capped
+const MIN_METRIC_SAMPLES = 1024;
+const MAX_METRIC_SAMPLES = 65536;
+
+/**
+ * Error metrics for the samples in the current view, recomputed as settings change.
+ */
+export function useQuantizationMetrics({
+  sampleRate,
+  bitDepth,
+  source,
+  quantizerSettings,
+  zoomLevel,
+  timeOffset,
+}: QuantizationMetricsOptions): QuantizationMetrics {
+  return useMemo(() => {
+    const signal = getSourceSignal(source, sampleRate);
+    const visibleSamples = Math.round(getViewDuration(zoomLevel) * sampleRate);
+    const count = Math.min(MAX_METRIC_SAMPLES, Math.max(MIN_METRIC_SAMPLES, visibleSamples));
+    const firstSample = getFirstSample(timeOffset, sampleRate);
+    const samples = sample(signal, sampleRate, count, firstSample);
+
+    return measureQuantization(
+      samples,
+      quantize(samples, bitDepth, quantizerSettings, firstSample),
+      bitDepth,
+      sampleRate,
+      // THD needs a fundamental, which files and test signals lack
+      source.uploadedAudio || !isPeriodicWaveform(source.waveformType) ? null : source.frequency,
+    );
+  }, [sampleRate, bitDepth, source, quantizerSettings, zoomLevel, timeOffset]);
+}
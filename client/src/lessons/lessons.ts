@@ -0,0 +1,172 @@
+import { DEFAULT_QUANTIZER_SETTINGS, aliasFrequency } from '@shared/dsp';
+import { DEFAULT_COMPARISON } from '@/lib/comparison';
+import type { Lesson } from './types';
+
+// Every lesson starts from a single, undithered configuration
+const CLEAN_START = {
+  quantizerSettings: DEFAULT_QUANTIZER_SETTINGS,
+  comparison: DEFAULT_COMPARISON,
+  timeOffset: 0,
+};
+
+const nyquist: Lesson = {
+  id: 'nyquist',
+  title: 'The Nyquist Limit',
+  summary: 'Why a signal must be sampled at more than twice its highest frequency.',
+  steps: [
+    {
+      title: 'Sampling a tone',
+      body: 'The top panel shows a 1 kHz sine and the dots where it is sampled. At 44.1 kHz there are more than 40 samples in every cycle, plenty to describe the wave.',
+      settings: { ...CLEAN_START, sampleRate: 44100, bitDepth: 16, frequency: 1000, waveformType: 'sine', zoomLevel: 100 },
+      highlight: ['card-original-waveform', 'card-quantized-waveform'],
+    },
+    {
+      title: 'The Nyquist frequency',
+      body: 'Half the sample rate is the Nyquist frequency, the highest frequency the samples can represent. Lower the sample rate and watch the samples thin out while the tone stays intact.',
+      highlight: ['slider-sample-rate', 'text-nyquist'],
+      checkpoint: {
+        description: 'Lower the sample rate until the Nyquist frequency is below 1.5 kHz but still above the 1 kHz tone.',
+        check: ({ settings }) => settings.sampleRate / 2 > settings.frequency && settings.sampleRate / 2 < settings.frequency * 1.5,
+      },
+    },
+    {
+      title: 'Crossing the limit',
+      body: 'With only two or three samples per cycle the reconstruction still finds the original tone. Now go one step further.',
+      highlight: ['slider-sample-rate', 'card-spectrum'],
+      checkpoint: {
+        description: 'Lower the sample rate until the Nyquist frequency falls below the tone.',
+        check: ({ settings }) => settings.sampleRate / 2 < settings.frequency,
+      },
+    },
+    {
+      title: 'A different tone',
+      body: 'Below two samples per cycle the samples fit a lower frequency just as well, and that is what gets reconstructed. The spectrum shows the tone has moved. This is aliasing, the subject of the next lesson.',
+      highlight: ['card-spectrum', 'card-quantized-waveform'],
+    },
+  ],
+};
+
+const aliasing: Lesson = {
+  id: 'aliasing',
+  title: 'Aliasing',
+  summary: 'How frequencies above Nyquist fold back into the audible band.',
+  steps: [
+    {
+      title: 'Folding frequencies',
+      body: 'At 8 kHz sampling the Nyquist frequency is 4 kHz. A component above it reappears at its distance from the nearest multiple of the sample rate, so 5 kHz shows up at 3 kHz.',
+      settings: { ...CLEAN_START, sampleRate: 8000, bitDepth: 16, frequency: 440, waveformType: 'sine', zoomLevel: 20 },
+      highlight: ['card-spectrum', 'text-nyquist'],
+    },
+    {
+      title: 'Raise the tone',
+      body: 'Sweep the tone upwards and keep an eye on the spectrum. Past 4 kHz the peak turns around and comes back down.',
+      highlight: ['slider-frequency', 'card-spectrum'],
+      checkpoint: {
+        description: 'Raise the frequency above the 4 kHz Nyquist frequency.',
+        check: ({ settings }) => settings.frequency > settings.sampleRate / 2,
+      },
+    },
+    {
+      title: 'Lower the sample rate instead',
+      body: 'Aliasing works the other way round too: keep the tone and take fewer samples.',
+      settings: { sampleRate: 8000, frequency: 440 },
+      highlight: ['slider-sample-rate', 'card-spectrum'],
+      checkpoint: {
+        description: 'Lower the sample rate until the 440 Hz tone aliases.',
+        check: ({ settings }) => aliasFrequency(settings.frequency, settings.sampleRate) < settings.frequency - 1,
+      },
+    },
+    {
+      title: 'Freezing the wave',
+      body: 'When the sample rate is close to the tone frequency, each sample lands at almost the same point of the cycle and the tone aliases to nearly 0 Hz, like a wagon wheel that seems to stand still on film.',
+      highlight: ['slider-sample-rate', 'card-quantized-waveform'],
+      checkpoint: {
+        description: 'Find a sample rate where the tone aliases below 20 Hz.',
+        check: ({ settings }) =>
+          settings.sampleRate < settings.frequency * 2 && aliasFrequency(settings.frequency, settings.sampleRate) < 20,
+      },
+    },
+    {
+      title: 'Harmonics alias too',
+      body: 'A square wave is made of odd harmonics that go on forever. At 8 kHz sampling, every harmonic above 4 kHz folds back and lands between the ones below it. The spectrum labels where each alias came from.',
+      settings: { sampleRate: 8000, frequency: 440, waveformType: 'square' },
+      highlight: ['card-spectrum', 'select-waveform-type'],
+    },
+  ],
+};
+
+const bitDepth: Lesson = {
+  id: 'bit-depth',
+  title: 'Bit Depth and Quantization Noise',
+  summary: 'How each bit of resolution buys about 6 dB of signal-to-noise ratio.',
+  steps: [
+    {
+      title: 'Rounding to levels',
+      body: 'Each sample is rounded to one of 2^N levels. At 16 bits there are 65,536 of them and the rounding error is far too small to see.',
+      settings: { ...CLEAN_START, sampleRate: 44100, bitDepth: 16, frequency: 440, waveformType: 'sine', zoomLevel: 50 },
+      highlight: ['slider-bit-depth', 'text-quant-levels'],
+    },
+    {
+      title: 'Fewer levels',
+      body: 'Halving the number of levels doubles the size of each step, and the stepped shape of the quantized wave starts to show.',
+      highlight: ['slider-bit-depth', 'card-quantized-waveform'],
+      checkpoint: {
+        description: 'Lower the bit depth to 8 bits or fewer.',
+        check: ({ settings }) => settings.bitDepth <= 8,
+      },
+    },
+    {
+      title: 'Six decibels per bit',
+      body: 'The rounding error acts like noise. For a full-scale sine the ratio of signal to quantization noise is about 6.02 × N + 1.76 dB; compare the measured SQNR with the theoretical one as you go.',
+      highlight: ['text-sqnr', 'text-theoretical-sqnr', 'slider-bit-depth'],
+      checkpoint: {
+        description: 'Keep lowering the bit depth until the measured SQNR drops below 20 dB.',
+        check: ({ metrics }) => metrics.sqnrDb !== null && metrics.sqnrDb < 20,
+      },
+    },
+    {
+      title: 'Noise or distortion?',
+      body: 'At very low bit depths the error panel repeats with every cycle of the tone. The error follows the signal, so it is heard as distortion rather than a gentle hiss. The dither lesson shows how to fix that.',
+      highlight: ['card-quantization-error', 'text-thd'],
+    },
+  ],
+};
+
+const dither: Lesson = {
+  id: 'dither',
+  title: 'Dither',
+  summary: 'Trading distortion for a little benign noise.',
+  steps: [
+    {
+      title: 'Distortion at low bit depth',
+      body: 'At 4 bits the quantization error of a pure tone repeats every cycle, so it shows up as harmonics in the spectrum and as THD in the metrics.',
+      settings: { ...CLEAN_START, sampleRate: 44100, bitDepth: 4, frequency: 440, waveformType: 'sine', zoomLevel: 20 },
+      highlight: ['card-spectrum', 'text-thd'],
+    },
+    {
+      title: 'Add dither',
+      body: 'Dither adds a small random signal before rounding. Triangular (TPDF) dither of ±1 LSB makes the error independent of the signal.',
+      highlight: ['select-dither'],
+      checkpoint: {
+        description: 'Switch the dither to TPDF.',
+        check: ({ settings }) => settings.quantizerSettings.dither === 'tpdf',
+      },
+    },
+    {
+      title: 'Harmonics become noise',
+      body: 'The harmonics are gone from the spectrum and THD drops; in exchange the noise floor rose slightly. Noise that does not follow the signal is far less objectionable than distortion.',
+      highlight: ['card-spectrum', 'text-thd', 'text-sqnr'],
+    },
+    {
+      title: 'Shape the noise',
+      body: 'Noise shaping feeds the rounding error back so that it is pushed towards high frequencies, where hearing is less sensitive.',
+      highlight: ['select-noise-shaping', 'card-spectrum'],
+      checkpoint: {
+        description: 'Choose any noise shaping filter and watch the noise tilt upwards in the spectrum.',
+        check: ({ settings }) => settings.quantizerSettings.noiseShaping !== 'none',
+      },
+    },
+  ],
+};
+
+export const LESSONS: Lesson[] = [nyquist, aliasing, bitDepth, dither];
@@ -0,0 +1,33 @@
+import type { ShareableSettings } from '@shared/schema';
+import type { QuantizationMetrics } from '@shared/dsp';
+
+// What a checkpoint can look at
+export interface LessonContext {
+  settings: ShareableSettings;
+  // Metrics of the configuration being edited
+  metrics: QuantizationMetrics;
+}
+
+export interface LessonCheckpoint {
+  // The task, shown to the student until it is met
+  description: string;
+  check: (context: LessonContext) => boolean;
+}
+
+export interface LessonStep {
+  title: string;
+  body: string;
+  // Applied when the step starts; everything else is left as the student set it
+  settings?: Partial<ShareableSettings>;
+  // data-testid values of the controls and panels the step talks about
+  highlight?: string[];
+  // Without one the student can move on straight away
+  checkpoint?: LessonCheckpoint;
+}
+
+export interface Lesson {
+  id: string;
+  title: string;
+  summary: string;
+  steps: LessonStep[];
+}
@@ -0,0 +1,19 @@
+export type ConfigSlot = 'A' | 'B';
+
+export type ComparisonLayout = 'side-by-side' | 'overlay';
+
+export interface ComparisonSettings {
+  enabled: boolean;
+  // Configuration shown and edited by the controls
+  editing: ConfigSlot;
+  // Configuration heard during playback
+  listening: ConfigSlot;
+  layout: ComparisonLayout;
+}
+
+export const DEFAULT_COMPARISON: ComparisonSettings = {
+  enabled: false,
+  editing: 'A',
+  listening: 'A',
+  layout: 'side-by-side',
+};
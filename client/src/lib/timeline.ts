@@ -0,0 +1,63 @@
+import { MAX_SAMPLE_RATE } from '@shared/audio';
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 100;
+// Generated waveforms are shown over a 1 second timeline
+export const DEFAULT_TIMELINE_DURATION = 1.0;
+// Pan buttons move the view by this fraction of its width
+export const PAN_STEP = 0.1;
+
+export interface TimelineView {
+  zoomLevel: number;
+  // Start of the visible window, in seconds
+  timeOffset: number;
+}
+
+export function getViewDuration(zoomLevel: number): number {
+  return DEFAULT_TIMELINE_DURATION / zoomLevel;
+}
+
+// Most samples a view can hold: the widest zoom at the highest sample rate
+export const MAX_VIEW_SAMPLES = Math.floor(getViewDuration(MIN_ZOOM) * MAX_SAMPLE_RATE) + 1;
+
+/**
+ * First sample at or after `timeOffset`. Noise shaping depends on the samples
+ * before, so every panel starts its quantizer here to show the same levels.
+ */
+export function getFirstSample(timeOffset: number, sampleRate: number): number {
+  return Math.ceil(timeOffset * sampleRate);
+}
+
+export function clampView(view: TimelineView, timelineDuration: number): TimelineView {
+  const zoomLevel = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, view.zoomLevel));
+  const maxOffset = Math.max(0, timelineDuration - getViewDuration(zoomLevel));
+  return {
+    zoomLevel,
+    timeOffset: Math.max(0, Math.min(maxOffset, view.timeOffset)),
+  };
+}
+
+export function panView(view: TimelineView, deltaSeconds: number, timelineDuration: number): TimelineView {
+  return clampView({ ...view, timeOffset: view.timeOffset + deltaSeconds }, timelineDuration);
+}
+
+/**
+ * Changes the zoom level while keeping `anchorTime` at the same position on screen.
+ */
+export function zoomViewAround(
+  view: TimelineView,
+  zoomLevel: number,
+  anchorTime: number,
+  timelineDuration: number,
+): TimelineView {
+  const anchorFraction = (anchorTime - view.timeOffset) / getViewDuration(view.zoomLevel);
+  const clampedZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoomLevel));
+  return clampView(
+    { zoomLevel: clampedZoom, timeOffset: anchorTime - anchorFraction * getViewDuration(clampedZoom) },
+    timelineDuration,
+  );
+}
+
+export function getViewCenter(view: TimelineView): number {
+  return view.timeOffset + getViewDuration(view.zoomLevel) / 2;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_QUANTIZER_SETTINGS } from '@shared/dsp';
+import type { ShareableSettings } from '@shared/schema';
+import { DEFAULT_COMPARISON } from './comparison';
+import { settingsFromSearch, settingsFromStored, settingsToSearch } from './url-state';
+
+const DEFAULTS: ShareableSettings = {
+  sampleRate: 8000,
+  bitDepth: 8,
+  quantizerSettings: DEFAULT_QUANTIZER_SETTINGS,
+  frequency: 440,
+  waveformType: 'sine',
+  harmonics: [{ harmonic: 1, amplitude: 1, phase: 0 }],
+  oscillatorMode: 'naive',
+  testSignal: { sweepEndFrequency: 20000, sweepDuration: 1, secondFrequency: 550, dcLevel: 0.5 },
+  input: { gainDb: 0, dcOffset: 0, phase: 0 },
+  zoomLevel: 100,
+  timeOffset: 0,
+  reconstructionMode: 'sinc',
+  binaryFormat: 'offset-binary',
+  wordSize: 16,
+  byteOrder: 'little-endian',
+  comparison: DEFAULT_COMPARISON,
+  configB: { sampleRate: 8000, bitDepth: 8, quantizerSettings: DEFAULT_QUANTIZER_SETTINGS },
+};
+
+describe('settingsToSearch', () => {
+  it('leaves defaults out of the query', () => {
+    expect(settingsToSearch(DEFAULTS, DEFAULTS)).toBe('');
+  });
+
+  it('round-trips changed settings, nested ones included', () => {
+    const settings: ShareableSettings = {
+      ...DEFAULTS,
+      sampleRate: 44100,
+      quantizerSettings: { ...DEFAULT_QUANTIZER_SETTINGS, dither: 'tpdf' },
+      harmonics: [{ harmonic: 3, amplitude: 0.5, phase: 1 }],
+      configB: { ...DEFAULTS.configB, bitDepth: 4 },
+    };
+    const search = settingsToSearch(settings, DEFAULTS);
+    expect(search).toContain('quantizerSettings.dither=tpdf');
+    expect(settingsFromSearch(search, DEFAULTS)).toEqual(settings);
+  });
+});
+
+describe('settingsFromSearch', () => {
+  it('accepts sample rates up to the top of the slider', () => {
+    const settings = settingsFromSearch('sampleRate=96000&configB.sampleRate=96000', DEFAULTS);
+    expect(settings.sampleRate).toBe(96000);
+    expect(settings.configB.sampleRate).toBe(96000);
+  });
+
+  it('falls back to the default for an invalid setting and keeps the rest', () => {
+    const settings = settingsFromSearch('sampleRate=96001&bitDepth=4&frequency=abc', DEFAULTS);
+    expect(settings.sampleRate).toBe(8000);
+    expect(settings.bitDepth).toBe(4);
+    expect(settings.frequency).toBe(440);
+  });
+
+  it('ignores unknown parameters', () => {
+    expect(settingsFromSearch('volume=11', DEFAULTS)).toEqual(DEFAULTS);
+  });
+});
+
+describe('settingsFromStored', () => {
+  it('fills in settings missing from older presets', () => {
+    const { input, testSignal, ...older } = { ...DEFAULTS, bitDepth: 12 };
+    expect(settingsFromStored(older, DEFAULTS)).toEqual({ ...DEFAULTS, bitDepth: 12 });
+  });
+});
@@ -0,0 +1,110 @@
+import { ShareableSettings, shareableSettingsSchema } from '@shared/schema';
+
+type ParamValue = string | number | boolean;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Nested settings become dotted keys, e.g. quantizerSettings.dither=tpdf.
+// Lists are kept whole as JSON, e.g. harmonics=[{"harmonic":1,...}]
+function flatten(value: object, prefix = '', out: Map<string, ParamValue> = new Map()): Map<string, ParamValue> {
+  Object.entries(value).forEach(([key, child]) => {
+    const path = prefix + key;
+    if (Array.isArray(child)) {
+      out.set(path, JSON.stringify(child));
+    } else if (isRecord(child)) {
+      flatten(child, `${path}.`, out);
+    } else {
+      out.set(path, child);
+    }
+  });
+  return out;
+}
+
+function unflatten(entries: Map<string, ParamValue>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  entries.forEach((value, path) => {
+    const keys = path.split('.');
+    let target = result;
+    keys.slice(0, -1).forEach((key) => {
+      const child = target[key];
+      target = isRecord(child) ? child : (target[key] = {});
+    });
+    target[keys[keys.length - 1]] = typeof value === 'string' && value.startsWith('[') ? parseList(value) : value;
+  });
+  return result;
+}
+
+// Malformed lists are left as strings and fail validation like any other bad value
+function parseList(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function parseParam(raw: string): ParamValue {
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  const number = Number(raw);
+  return raw.trim() !== '' && Number.isFinite(number) ? number : raw;
+}
+
+/**
+ * Query string for the settings, listing only those that differ from the
+ * defaults so links stay short.
+ */
+export function settingsToSearch(settings: ShareableSettings, defaults: ShareableSettings): string {
+  const defaultParams = flatten(defaults);
+  const params = new URLSearchParams();
+  flatten(settings).forEach((value, key) => {
+    if (defaultParams.get(key) !== value) {
+      params.set(key, String(value));
+    }
+  });
+  return params.toString();
+}
+
+// Validates each top-level setting on its own, keeping the default for any that fail
+function validate(entries: Map<string, ParamValue>, defaults: ShareableSettings): ShareableSettings {
+  const candidate = unflatten(entries);
+  const settings: Record<string, unknown> = {};
+  Object.entries(shareableSettingsSchema.shape).forEach(([key, schema]) => {
+    const parsed = schema.safeParse(candidate[key]);
+    settings[key] = parsed.success ? parsed.data : defaults[key as keyof ShareableSettings];
+  });
+  return settings as ShareableSettings;
+}
+
+/**
+ * Reads settings from a query string. Unknown parameters are ignored and a
+ * setting that fails validation falls back to its default on its own, so a
+ * hand-edited link still opens with everything else intact.
+ */
+export function settingsFromSearch(search: string, defaults: ShareableSettings): ShareableSettings {
+  const entries = flatten(defaults);
+  new URLSearchParams(search).forEach((raw, key) => {
+    if (entries.has(key)) {
+      entries.set(key, parseParam(raw));
+    }
+  });
+  return validate(entries, defaults);
+}
+
+/**
+ * Reads settings saved by an earlier version, e.g. a stored preset, the same
+ * way as settingsFromSearch: settings added since are filled in from the
+ * defaults and any that no longer validate fall back on their own.
+ */
+export function settingsFromStored(stored: unknown, defaults: ShareableSettings): ShareableSettings {
+  const entries = flatten(defaults);
+  if (isRecord(stored)) {
+    flatten(stored).forEach((value, key) => {
+      if (entries.has(key)) {
+        entries.set(key, value);
+      }
+    });
+  }
+  return validate(entries, defaults);
+}
@@ -0,0 +1,42 @@
+import { PeriodicWaveformType, TestSignalSettings, TestSignalType, WaveformType, isPeriodicWaveform } from '@shared/audio';
+
+export const PERIODIC_WAVEFORM_LABELS: Record<PeriodicWaveformType, string> = {
+  sine: 'Sine Wave',
+  square: 'Square Wave',
+  triangle: 'Triangle Wave',
+  sawtooth: 'Sawtooth Wave',
+  custom: 'Custom (Harmonics)',
+};
+
+export const TEST_SIGNAL_LABELS: Record<TestSignalType, string> = {
+  'white-noise': 'White Noise',
+  'pink-noise': 'Pink Noise',
+  'linear-chirp': 'Linear Chirp',
+  'log-chirp': 'Logarithmic Chirp',
+  impulse: 'Impulse Train',
+  dc: 'DC Offset',
+  'two-tone': 'Two-Tone (IMD)',
+};
+
+export function getWaveformLabel(type: WaveformType): string {
+  return isPeriodicWaveform(type) ? PERIODIC_WAVEFORM_LABELS[type] : TEST_SIGNAL_LABELS[type];
+}
+
+// One-line description of a generated source, including the parameters that shape it
+export function describeWaveform(type: WaveformType, frequency: number, testSignal: TestSignalSettings): string {
+  const label = getWaveformLabel(type);
+  switch (type) {
+    case 'white-noise':
+    case 'pink-noise':
+      return label;
+    case 'linear-chirp':
+    case 'log-chirp':
+      return `${label} ${frequency} → ${testSignal.sweepEndFrequency} Hz in ${testSignal.sweepDuration}s`;
+    case 'dc':
+      return `${label} @ ${testSignal.dcLevel.toFixed(2)}`;
+    case 'two-tone':
+      return `${label} @ ${frequency} + ${testSignal.secondFrequency} Hz`;
+    default:
+      return `${label} @ ${frequency} Hz`;
+  }
+}
@@ -1,23 +1,235 @@
-import { useState, useEffect, useRef } from 'react';
-import { WaveformCanvas } from '@/components/WaveformCanvas';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { SampleHover, WaveformCanvas } from '@/components/WaveformCanvas';
 import { ControlPanel } from '@/components/ControlPanel';
+import { AccountMenu } from '@/components/AccountMenu';
+import { TimelineMinimap } from '@/components/TimelineMinimap';
+import { SpectrumCanvas } from '@/components/SpectrumCanvas';
+import { HexDumpView } from '@/components/HexDumpView';
+import { SampleInspector, SampleTooltip } from '@/components/SampleInspector';
+import { ClassroomPanel } from '@/components/ClassroomPanel';
+import { LessonOverlay } from '@/components/LessonOverlay';
+import { LessonPicker } from '@/components/LessonPicker';
+import { QuizDialog } from '@/components/QuizDialog';
 import { Card } from '@/components/ui/card';
-import { WaveformType } from '@shared/schema';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAudioEngine } from '@/hooks/use-audio-engine';
+import { useClassroom } from '@/hooks/use-classroom';
+import { useLesson } from '@/hooks/use-lesson';
+import { useQuantizationMetrics } from '@/hooks/use-quantization-metrics';
+import { useToast } from '@/hooks/use-toast';
+import { UploadedAudio, decodeAudioFile } from '@/audio/decode-audio-file';
+import { exportWav } from '@/audio/export-wav';
+import { inspectSample } from '@/audio/inspect-sample';
+import { SourceSettings } from '@/audio/source-signal';
+import {
+  DEFAULT_TIMELINE_DURATION,
+  PAN_STEP,
+  TimelineView,
+  clampView,
+  getFirstSample,
+  getViewCenter,
+  getViewDuration,
+  panView,
+  zoomViewAround,
+} from '@/lib/timeline';
+import { ComparisonSettings, ConfigSlot, DEFAULT_COMPARISON } from '@/lib/comparison';
+import { settingsFromSearch, settingsFromStored, settingsToSearch } from '@/lib/url-state';
+import { LESSONS } from '@/lessons/lessons';
+import {
+  BinaryFormat,
+  ByteOrder,
+  HarmonicPartial,
+  InputSettings,
+  OscillatorMode,
+  QuantizerSettings,
+  ReconstructionMode,
+  SamplingConfig,
+  TestSignalSettings,
+  WaveformType,
+  WordSize,
+} from '@shared/audio';
+import { ShareableSettings } from '@shared/schema';
+import { DEFAULT_QUANTIZER_SETTINGS } from '@shared/dsp';
+import { BINARY_FORMAT_LABELS } from '@shared/codeword';
+import { getContainerBits } from '@shared/wav';
+
+const DEFAULT_CONFIG: SamplingConfig = {
+  sampleRate: 8000,
+  bitDepth: 8,
+  quantizerSettings: DEFAULT_QUANTIZER_SETTINGS,
+};
+
+const DEFAULT_SETTINGS: ShareableSettings = {
+  ...DEFAULT_CONFIG,
+  frequency: 440,
+  waveformType: 'sine',
+  // The first odd harmonics of a square wave, until the user builds their own
+  harmonics: [1, 3, 5, 7].map((harmonic) => ({ harmonic, amplitude: 1 / harmonic, phase: 0 })),
+  oscillatorMode: 'naive',
+  // A full-band sweep, and a second tone a little above the default 440 Hz
+  testSignal: { sweepEndFrequency: 20000, sweepDuration: 1, secondFrequency: 550, dcLevel: 0.5 },
+  input: { gainDb: 0, dcOffset: 0, phase: 0 },
+  zoomLevel: 100,
+  timeOffset: 0,
+  reconstructionMode: 'sinc',
+  binaryFormat: 'offset-binary',
+  wordSize: 16,
+  byteOrder: 'little-endian',
+  comparison: DEFAULT_COMPARISON,
+  configB: DEFAULT_CONFIG,
+};
+
+// Pans and slider drags settle before the URL is rewritten
+const URL_UPDATE_DELAY_MS = 300;
+
+const COMPARED_SLOTS: ConfigSlot[] = ['A', 'B'];
+
+function ConfigBadge({ slot }: { slot: ConfigSlot }) {
+  return (
+    <span
+      className={`absolute top-2 right-3 text-xs font-semibold ${slot === 'A' ? 'text-chart-2' : 'text-chart-5'}`}
+      data-testid={`badge-config-${slot.toLowerCase()}`}
+    >
+      {slot}
+    </span>
+  );
+}
 
 export default function Visualizer() {
+  const search = useSearch();
+  const [location, navigate] = useLocation();
+  // Settings from a shared link; only read on load, afterwards the URL follows the state
+  const [initial] = useState(() => settingsFromSearch(search, DEFAULT_SETTINGS));
   const [hardwareMaxRate, setHardwareMaxRate] = useState(48000);
-  const [sampleRate, setSampleRate] = useState(8000);
-  const [bitDepth, setBitDepth] = useState(8);
+  const [configA, setConfigA] = useState<SamplingConfig>({
+    sampleRate: initial.sampleRate,
+    bitDepth: initial.bitDepth,
+    quantizerSettings: initial.quantizerSettings,
+  });
+  const [configB, setConfigB] = useState<SamplingConfig>(initial.configB);
+  const [comparison, setComparison] = useState<ComparisonSettings>(initial.comparison);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [frequency, setFrequency] = useState(440);
-  const [waveformType, setWaveformType] = useState<WaveformType>('sine');
-  const [zoomLevel, setZoomLevel] = useState(100);
+  const [frequency, setFrequency] = useState(initial.frequency);
+  const [waveformType, setWaveformType] = useState<WaveformType>(initial.waveformType);
+  const [harmonics, setHarmonics] = useState<HarmonicPartial[]>(initial.harmonics);
+  const [oscillatorMode, setOscillatorMode] = useState<OscillatorMode>(initial.oscillatorMode);
+  const [testSignal, setTestSignal] = useState<TestSignalSettings>(initial.testSignal);
+  const [input, setInput] = useState<InputSettings>(initial.input);
+  const [view, setView] = useState<TimelineView>(() =>
+    clampView({ zoomLevel: initial.zoomLevel, timeOffset: initial.timeOffset }, DEFAULT_TIMELINE_DURATION),
+  );
+  const [reconstructionMode, setReconstructionMode] = useState<ReconstructionMode>(initial.reconstructionMode);
+  const [binaryFormat, setBinaryFormat] = useState<BinaryFormat>(initial.binaryFormat);
+  const [wordSize, setWordSize] = useState<WordSize>(initial.wordSize);
+  const [byteOrder, setByteOrder] = useState<ByteOrder>(initial.byteOrder);
+  // Sample under the cursor, and the one pinned by clicking
+  const [hover, setHover] = useState<SampleHover | null>(null);
+  const [pinnedSample, setPinnedSample] = useState<number | null>(null);
+  const [uploadedAudio, setUploadedAudio] = useState<UploadedAudio | null>(null);
+  const [isDecoding, setIsDecoding] = useState(false);
+  const { toast } = useToast();
+
+  const { zoomLevel, timeOffset } = view;
+
+  // The controls and single-configuration panels follow the configuration being edited
+  const editingB = comparison.enabled && comparison.editing === 'B';
+  const { sampleRate, bitDepth, quantizerSettings } = editingB ? configB : configA;
+  const updateConfig = (changes: Partial<SamplingConfig>) => {
+    (editingB ? setConfigB : setConfigA)((prev) => ({ ...prev, ...changes }));
+  };
+  const setSampleRate = (value: number) => updateConfig({ sampleRate: value });
+  const setBitDepth = (value: number) => updateConfig({ bitDepth: value });
+  const setQuantizerSettings = (value: QuantizerSettings) => updateConfig({ quantizerSettings: value });
+
+  const handleComparisonChange = (next: ComparisonSettings) => {
+    // B starts out as a copy of A each time comparison is switched on
+    if (next.enabled && !comparison.enabled) {
+      setConfigB(configA);
+    }
+    setComparison(next);
+  };
+  const timelineDuration = uploadedAudio ? uploadedAudio.duration : DEFAULT_TIMELINE_DURATION;
+
+  const source = useMemo<SourceSettings>(
+    () => ({ uploadedAudio, frequency, waveformType, harmonics, oscillatorMode, testSignal, input }),
+    [uploadedAudio, frequency, waveformType, harmonics, oscillatorMode, testSignal, input],
+  );
 
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const oscillatorRef = useRef<OscillatorNode | null>(null);
-  const gainNodeRef = useRef<GainNode | null>(null);
   const playbackTimerRef = useRef<NodeJS.Timeout | null>(null);
 
+  const currentSettings = useMemo<ShareableSettings>(() => ({
+    ...configA,
+    frequency,
+    waveformType,
+    harmonics,
+    oscillatorMode,
+    testSignal,
+    input,
+    zoomLevel,
+    timeOffset,
+    reconstructionMode,
+    binaryFormat,
+    wordSize,
+    byteOrder,
+    comparison,
+    // B is copied from A when comparison starts, so it only matters while comparing
+    configB: comparison.enabled ? configB : DEFAULT_CONFIG,
+  }), [configA, configB, comparison, frequency, waveformType, harmonics, oscillatorMode, testSignal, input, zoomLevel, timeOffset, reconstructionMode, binaryFormat, wordSize, byteOrder]);
+
+  const applySettings = (settings: ShareableSettings) => {
+    setConfigA({ sampleRate: settings.sampleRate, bitDepth: settings.bitDepth, quantizerSettings: settings.quantizerSettings });
+    setConfigB(settings.configB);
+    setComparison(settings.comparison);
+    setFrequency(settings.frequency);
+    setWaveformType(settings.waveformType);
+    setHarmonics(settings.harmonics);
+    setOscillatorMode(settings.oscillatorMode);
+    setTestSignal(settings.testSignal);
+    setInput(settings.input);
+    setView(clampView({ zoomLevel: settings.zoomLevel, timeOffset: settings.timeOffset }, timelineDuration));
+    setReconstructionMode(settings.reconstructionMode);
+    setBinaryFormat(settings.binaryFormat);
+    setWordSize(settings.wordSize);
+    setByteOrder(settings.byteOrder);
+    setPinnedSample(null);
+  };
+
+  // Presets saved before a setting existed lack it, so they are checked key by key like a link
+  const handlePresetLoad = (stored: ShareableSettings) => applySettings(settingsFromStored(stored, DEFAULT_SETTINGS));
+
+  // Latest settings from the classroom teacher, applied while following
+  const [teacherSettings, setTeacherSettings] = useState<ShareableSettings | null>(null);
+  const [followTeacher, setFollowTeacher] = useState(true);
+  const classroom = useClassroom({ onTeacherSettings: setTeacherSettings });
+  const { role: classroomRole, code: classroomCode } = classroom.state;
+
+  useEffect(() => {
+    if (classroomRole === 'teacher' && classroomCode) {
+      classroom.broadcast(currentSettings);
+    }
+  }, [currentSettings, classroomRole, classroomCode]);
+
+  useEffect(() => {
+    if (classroomRole === 'student' && followTeacher && teacherSettings) {
+      applySettings(teacherSettings);
+    }
+  }, [teacherSettings, followTeacher, classroomRole]);
+
+  const handleLeaveClassroom = () => {
+    classroom.leave();
+    setTeacherSettings(null);
+  };
+
+  // Mirror the settings into the URL so the current demo can be shared as a link
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const query = settingsToSearch(currentSettings, DEFAULT_SETTINGS);
+      navigate(query ? `${location}?${query}` : location, { replace: true });
+    }, URL_UPDATE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentSettings]);
+
   useEffect(() => {
     const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
     const tempCtx = new AudioContextClass();
@@ -37,14 +249,7 @@ export default function Visualizer() {
     return () => window.removeEventListener('keydown', handleKeyPress);
   }, []);
 
-  // Update oscillator frequency when it changes (without restarting audio)
-  useEffect(() => {
-    if (oscillatorRef.current) {
-      oscillatorRef.current.frequency.value = frequency;
-    }
-  }, [frequency]);
-
-  // Update gain when play/pause state changes
+  // Auto-stop playback after a short preview
   useEffect(() => {
     // Clear any existing timer
     if (playbackTimerRef.current) {
@@ -52,17 +257,6 @@ export default function Visualizer() {
       playbackTimerRef.current = null;
     }
 
-    if (gainNodeRef.current) {
-      gainNodeRef.current.gain.value = isPlaying ? 0.3 : 0;
-    }
-
-    // Resume audio context if it's suspended (browser autoplay policy)
-    if (isPlaying && audioContextRef.current && audioContextRef.current.state === 'suspended') {
-      audioContextRef.current.resume().catch((err) => {
-        console.error('Failed to resume audio context:', err);
-      });
-    }
-
     // Set timer to stop playback after 1 second
     if (isPlaying) {
       playbackTimerRef.current = setTimeout(() => {
@@ -78,164 +272,112 @@ export default function Visualizer() {
     };
   }, [isPlaying]);
 
-  // Update oscillator waveform type when it changes (requires restart)
-  useEffect(() => {
-    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-    // Always create AudioContext at hardware rate for proper downsampling
-    // The crusher will handle resampling to the desired sample rate
-    const ctx = new AudioContextClass();
-    audioContextRef.current = ctx;
-
-    const actualContextRate = ctx.sampleRate;
-    const gainNode = ctx.createGain();
-    gainNode.gain.value = isPlaying ? 0.3 : 0;
-
-    const quantizationLevels = Math.pow(2, bitDepth);
-    const crusher = ctx.createScriptProcessor(4096, 1, 1);
-
-    let phaseAccumulator = 0;
-    const downsampleRatio = actualContextRate / sampleRate;
-
-    // Sinc interpolation parameters
-    const sincRadius = 32; // Number of samples on each side for sinc kernel
-    const sampleBuffer: number[] = []; // Buffer to store quantized samples for sinc interpolation
-
-    // Windowed sinc function (Lanczos window)
-    const sinc = (x: number): number => {
-      if (Math.abs(x) < 1e-10) return 1.0;
-      const piX = Math.PI * x;
-      return Math.sin(piX) / piX;
-    };
-
-    const lanczosWindow = (x: number, a: number): number => {
-      if (Math.abs(x) > a) return 0;
-      return sinc(x / a);
-    };
-
-    crusher.onaudioprocess = (e) => {
-      const input = e.inputBuffer.getChannelData(0);
-      const output = e.outputBuffer.getChannelData(0);
-
-      for (let i = 0; i < input.length; i++) {
-        if (sampleRate < actualContextRate) {
-          // Advance phase
-          phaseAccumulator += 1.0;
-
-          // Check if we need to capture a new sample
-          if (phaseAccumulator >= downsampleRatio) {
-            phaseAccumulator -= downsampleRatio;
-
-            // Quantize the new sample and add to buffer
-            const normalized = (input[i] + 1) / 2;
-            const quantized = Math.floor(normalized * quantizationLevels);
-            const clamped = Math.max(0, Math.min(quantizationLevels - 1, quantized));
-            const quantizedSample = (clamped / (quantizationLevels - 1)) * 2 - 1;
-            sampleBuffer.push(quantizedSample);
-
-            // Keep buffer size manageable
-            if (sampleBuffer.length > sincRadius * 2 + 1) {
-              sampleBuffer.shift();
-            }
-          }
-
-          // Sinc interpolation
-          if (sampleBuffer.length >= sincRadius * 2 + 1) {
-            // Calculate fractional position within the downsample period
-            const fracPos = phaseAccumulator / downsampleRatio;
-
-            let interpolatedSample = 0;
-            const centerIdx = sampleBuffer.length - sincRadius - 1;
-
-            for (let j = -sincRadius; j <= sincRadius; j++) {
-              const bufferIdx = centerIdx + j;
-              if (bufferIdx >= 0 && bufferIdx < sampleBuffer.length) {
-                const x = j - fracPos;
-                const weight = sinc(x) * lanczosWindow(x, sincRadius);
-                interpolatedSample += sampleBuffer[bufferIdx] * weight;
-              }
-            }
-
-            output[i] = interpolatedSample;
-          } else {
-            // Not enough samples yet, use last available sample
-            output[i] = sampleBuffer.length > 0 ? sampleBuffer[sampleBuffer.length - 1] : 0;
-          }
-        } else {
-          // When sampleRate >= actualContextRate, just quantize without resampling
-          const normalized = (input[i] + 1) / 2;
-          const quantized = Math.floor(normalized * quantizationLevels);
-          const clamped = Math.max(0, Math.min(quantizationLevels - 1, quantized));
-          output[i] = (clamped / (quantizationLevels - 1)) * 2 - 1;
-        }
-      }
-    };
+  useAudioEngine({
+    configA,
+    configB,
+    comparing: comparison.enabled,
+    listening: comparison.listening,
+    source,
+    reconstructionMode,
+    isPlaying,
+  });
+
+  const metricsA = useQuantizationMetrics({ ...configA, source, zoomLevel, timeOffset });
+  const metricsB = useQuantizationMetrics({ ...configB, source, zoomLevel, timeOffset });
+  const metrics = editingB ? metricsB : metricsA;
+
+  const lessons = useLesson({
+    context: { settings: currentSettings, metrics },
+    onApplySettings: (settings) => applySettings({ ...currentSettings, ...settings }),
+  });
+
+  const highlightedSample = hover?.sampleIndex ?? pinnedSample;
+
+  const inspectOptions = {
+    sampleRate,
+    bitDepth,
+    source,
+    quantizerSettings,
+    binaryFormat,
+    firstSample: getFirstSample(timeOffset, sampleRate),
+  };
+  const hoverDetails = useMemo(
+    () => (hover ? inspectSample(hover.sampleIndex, inspectOptions) : null),
+    [hover?.sampleIndex, sampleRate, bitDepth, source, quantizerSettings, binaryFormat, timeOffset],
+  );
+  const pinnedDetails = useMemo(
+    () => (pinnedSample !== null ? inspectSample(pinnedSample, inspectOptions) : null),
+    [pinnedSample, sampleRate, bitDepth, source, quantizerSettings, binaryFormat, timeOffset],
+  );
 
-    // Anti-aliasing filter BEFORE downsampling to prevent aliasing
-    const nyquist = sampleRate / 2;
-    const antiAliasFilter = ctx.createBiquadFilter();
-    antiAliasFilter.type = 'lowpass';
-    antiAliasFilter.frequency.value = nyquist * 0.8; // Conservative cutoff at 80% of Nyquist
-    antiAliasFilter.Q.value = 0.707; // Butterworth response
-
-    // Reconstruction filter AFTER sample-and-hold to remove imaging artifacts
-    // This is critical - the stepped output from sample-and-hold creates images
-    // that need to be filtered out before we hear them
-    const reconstructionFilter1 = ctx.createBiquadFilter();
-    reconstructionFilter1.type = 'lowpass';
-    reconstructionFilter1.frequency.value = nyquist * 0.9;
-    reconstructionFilter1.Q.value = 0.5412; // 4th-order Butterworth Q1
-
-    const reconstructionFilter2 = ctx.createBiquadFilter();
-    reconstructionFilter2.type = 'lowpass';
-    reconstructionFilter2.frequency.value = nyquist * 0.9;
-    reconstructionFilter2.Q.value = 1.3065; // 4th-order Butterworth Q2
-
-    const oscillator = ctx.createOscillator();
-    oscillator.frequency.value = frequency;
-    oscillator.type = waveformType;
-    oscillator.connect(antiAliasFilter);
-    oscillator.start();
-    oscillatorRef.current = oscillator;
-
-    // Chain: oscillator -> anti-alias filter -> crusher (downsample + quantize + hold)
-    //        -> reconstruction filters -> gain -> output
-    antiAliasFilter.connect(crusher);
-    crusher.connect(reconstructionFilter1);
-    reconstructionFilter1.connect(reconstructionFilter2);
-    reconstructionFilter2.connect(gainNode);
-    gainNode.connect(ctx.destination);
-    gainNodeRef.current = gainNode;
-
-    // Resume audio context if playing and suspended (browser autoplay policy)
-    if (isPlaying && ctx.state === 'suspended') {
-      ctx.resume().catch((err) => {
-        console.error('Failed to resume audio context:', err);
+  // Keep the view inside the timeline when the source changes length
+  useEffect(() => {
+    setView((prev) => clampView(prev, timelineDuration));
+  }, [timelineDuration]);
+
+  const handlePan = useCallback((deltaSeconds: number) => {
+    setView((prev) => panView(prev, deltaSeconds, timelineDuration));
+  }, [timelineDuration]);
+
+  const handleZoomAt = useCallback((nextZoom: number, anchorTime: number) => {
+    setView((prev) => zoomViewAround(prev, nextZoom, anchorTime, timelineDuration));
+  }, [timelineDuration]);
+
+  const handleZoomLevelChange = (nextZoom: number) => {
+    setView((prev) => zoomViewAround(prev, nextZoom, getViewCenter(prev), timelineDuration));
+  };
+
+  const handleTimeOffsetChange = (nextOffset: number) => {
+    setView((prev) => clampView({ ...prev, timeOffset: nextOffset }, timelineDuration));
+  };
+
+  const handleAudioFileSelect = async (file: File) => {
+    setIsDecoding(true);
+    try {
+      setUploadedAudio(await decodeAudioFile(file));
+    } catch (err) {
+      console.error('Failed to decode audio file:', err);
+      toast({
+        title: 'Could not load audio file',
+        description: `${file.name} is not a WAV, MP3 or OGG file this browser can decode.`,
+        variant: 'destructive',
       });
+    } finally {
+      setIsDecoding(false);
     }
+  };
+
+  const configs: Record<ConfigSlot, SamplingConfig> = { A: configA, B: configB };
+  // Sample indices are in the edited configuration's rate, so only its canvas is inspectable
+  const isInspectable = (slot: ConfigSlot) => (comparison.enabled ? comparison.editing : 'A') === slot;
+
+  const renderQuantizedWaveform = (slot: ConfigSlot, overlay: SamplingConfig | null) => (
+    <WaveformCanvas
+      {...configs[slot]}
+      source={source}
+      zoomLevel={zoomLevel}
+      isPlaying={isPlaying}
+      timeOffset={timeOffset}
+      onPan={handlePan}
+      onZoomAt={handleZoomAt}
+      onHoverSample={isInspectable(slot) ? setHover : undefined}
+      onSelectSample={isInspectable(slot) ? setPinnedSample : undefined}
+      highlightedSample={isInspectable(slot) ? highlightedSample : null}
+      overlay={overlay}
+      type="quantized"
+      className="w-full h-full"
+    />
+  );
 
-    return () => {
-      try {
-        oscillator.stop();
-      } catch (e) {
-      }
-
-      try {
-        crusher.disconnect();
-        antiAliasFilter.disconnect();
-        reconstructionFilter1.disconnect();
-        reconstructionFilter2.disconnect();
-        gainNode.disconnect();
-      } catch (e) {
-      }
-
-      if (ctx.state !== 'closed') {
-        ctx.close().catch(() => {});
-      }
-
-      audioContextRef.current = null;
-      oscillatorRef.current = null;
-    };
-  }, [sampleRate, bitDepth, waveformType, hardwareMaxRate, isPlaying]);
+  const renderSpectrum = (slot: ConfigSlot, overlay: SamplingConfig | null) => (
+    <SpectrumCanvas
+      {...configs[slot]}
+      source={source}
+      timeOffset={timeOffset}
+      overlay={overlay}
+      className="w-full h-full"
+    />
+  );
 
   const quantizationLevels = Math.pow(2, bitDepth);
   const nyquistFrequency = sampleRate / 2;
@@ -270,30 +412,91 @@ export default function Visualizer() {
               {quantizationLevels.toLocaleString()}
             </div>
           </div>
+          <LessonPicker lessons={LESSONS} progress={lessons.progress} onStart={lessons.start} />
+          <QuizDialog />
+          <AccountMenu />
         </div>
       </header>
 
       <div className="flex flex-col md:flex-row flex-1 overflow-hidden">
         <aside className="w-full md:w-80 lg:w-80 border-b md:border-b-0 md:border-r border-border bg-card overflow-y-auto">
+          <div className="px-4 md:px-6 pt-4 md:pt-6">
+            <ClassroomPanel
+              state={classroom.state}
+              followTeacher={followTeacher}
+              onHost={classroom.host}
+              onJoin={(code) => {
+                setTeacherSettings(null);
+                classroom.join(code);
+              }}
+              onLeave={handleLeaveClassroom}
+              onFollowTeacherChange={setFollowTeacher}
+            />
+          </div>
+          {pinnedDetails && (
+            <div className="px-4 md:px-6 pt-4 md:pt-6">
+              <SampleInspector details={pinnedDetails} onClose={() => setPinnedSample(null)} />
+            </div>
+          )}
           <ControlPanel
             sampleRate={sampleRate}
             bitDepth={bitDepth}
             isPlaying={isPlaying}
             hardwareMaxRate={hardwareMaxRate}
             waveformType={waveformType}
+            harmonics={harmonics}
+            oscillatorMode={oscillatorMode}
+            testSignal={testSignal}
+            input={input}
             frequency={frequency}
             zoomLevel={zoomLevel}
+            reconstructionMode={reconstructionMode}
+            quantizerSettings={quantizerSettings}
+            uploadedAudio={uploadedAudio}
+            isDecoding={isDecoding}
+            metrics={metrics}
+            comparison={comparison}
+            comparisonMetrics={comparison.enabled ? { A: metricsA, B: metricsB } : null}
+            presetSettings={currentSettings}
             onSampleRateChange={setSampleRate}
             onBitDepthChange={setBitDepth}
             onWaveformTypeChange={setWaveformType}
+            onHarmonicsChange={setHarmonics}
+            onOscillatorModeChange={setOscillatorMode}
+            onTestSignalChange={setTestSignal}
+            onInputChange={setInput}
             onFrequencyChange={setFrequency}
-            onZoomLevelChange={setZoomLevel}
+            onZoomLevelChange={handleZoomLevelChange}
+            onPanLeft={() => handlePan(-PAN_STEP * getViewDuration(zoomLevel))}
+            onPanRight={() => handlePan(PAN_STEP * getViewDuration(zoomLevel))}
+            onResetView={() => setView({ zoomLevel: 1, timeOffset: 0 })}
+            onReconstructionModeChange={setReconstructionMode}
+            onQuantizerSettingsChange={setQuantizerSettings}
+            onComparisonChange={handleComparisonChange}
+            onPresetLoad={handlePresetLoad}
+            onAudioFileSelect={handleAudioFileSelect}
+            onAudioFileClear={() => setUploadedAudio(null)}
+            onExportWav={(durationSeconds) =>
+              exportWav({ sampleRate, bitDepth, source, quantizerSettings, durationSeconds })
+            }
             onPlayPauseToggle={() => setIsPlaying(!isPlaying)}
           />
         </aside>
 
         <main className="flex-1 p-2 md:p-4 overflow-hidden">
           <div className="h-full flex flex-col gap-2">
+            <div className="h-8 shrink-0 rounded-md border border-border overflow-hidden" data-testid="timeline-minimap">
+              <TimelineMinimap
+                source={source}
+                sampleRate={sampleRate}
+                timelineDuration={timelineDuration}
+                zoomLevel={zoomLevel}
+                timeOffset={timeOffset}
+                onTimeOffsetChange={handleTimeOffsetChange}
+                className="w-full h-full"
+              />
+            </div>
+
             <div className="flex-1 flex flex-col min-h-0">
               <div className="flex items-center justify-between mb-1">
                 <h2 className="text-xs font-semibold uppercase tracking-wide text-foreground">
@@ -304,10 +507,16 @@ export default function Visualizer() {
                 <WaveformCanvas
                   sampleRate={sampleRate}
                   bitDepth={bitDepth}
-                  frequency={frequency}
-                  waveformType={waveformType}
+                  source={source}
                   zoomLevel={zoomLevel}
                   isPlaying={isPlaying}
+                  quantizerSettings={quantizerSettings}
+                  timeOffset={timeOffset}
+                  onPan={handlePan}
+                  onZoomAt={handleZoomAt}
+                  onHoverSample={setHover}
+                  onSelectSample={setPinnedSample}
+                  highlightedSample={highlightedSample}
                   type="original"
                   className="w-full h-full"
                 />
@@ -320,15 +529,41 @@ export default function Visualizer() {
                   Quantized Waveform
                 </h2>
               </div>
-              <Card className="flex-1 p-2 bg-card min-h-0" data-testid="card-quantized-waveform">
+              {comparison.enabled && comparison.layout === 'side-by-side' ? (
+                <div className="flex-1 grid grid-cols-2 gap-2 min-h-0">
+                  {COMPARED_SLOTS.map((slot) => (
+                    <Card key={slot} className="relative p-2 bg-card min-h-0" data-testid={`card-quantized-waveform-${slot.toLowerCase()}`}>
+                      {renderQuantizedWaveform(slot, null)}
+                      <ConfigBadge slot={slot} />
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <Card className="flex-1 p-2 bg-card min-h-0" data-testid="card-quantized-waveform">
+                  {renderQuantizedWaveform('A', comparison.enabled ? configB : null)}
+                </Card>
+              )}
+            </div>
+
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="flex items-center justify-between mb-1">
+                <h2 className="text-xs font-semibold uppercase tracking-wide text-foreground">
+                  Quantization Error
+                </h2>
+              </div>
+              <Card className="flex-1 p-2 bg-card min-h-0" data-testid="card-quantization-error">
                 <WaveformCanvas
                   sampleRate={sampleRate}
                   bitDepth={bitDepth}
-                  frequency={frequency}
-                  waveformType={waveformType}
+                  source={source}
                   zoomLevel={zoomLevel}
                   isPlaying={isPlaying}
-                  type="quantized"
+                  quantizerSettings={quantizerSettings}
+                  timeOffset={timeOffset}
+                  onPan={handlePan}
+                  onZoomAt={handleZoomAt}
+                  highlightedSample={highlightedSample}
+                  type="error"
                   className="w-full h-full"
                 />
               </Card>
@@ -339,22 +574,124 @@ export default function Visualizer() {
                 <h2 className="text-xs font-semibold uppercase tracking-wide text-foreground">
                   Binary Encoding Stream
                 </h2>
+                <Select value={binaryFormat} onValueChange={(value: BinaryFormat) => setBinaryFormat(value)}>
+                  <SelectTrigger className="h-6 w-48 text-xs" data-testid="select-binary-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BINARY_FORMAT_LABELS) as BinaryFormat[]).map((format) => (
+                      <SelectItem key={format} value={format}>
+                        {BINARY_FORMAT_LABELS[format]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <Card className="flex-1 p-2 bg-card min-h-0" data-testid="card-binary-encoding">
                 <WaveformCanvas
                   sampleRate={sampleRate}
                   bitDepth={bitDepth}
-                  frequency={frequency}
-                  waveformType={waveformType}
+                  source={source}
                   isPlaying={isPlaying}
+                  quantizerSettings={quantizerSettings}
+                  binaryFormat={binaryFormat}
+                  timeOffset={timeOffset}
+                  highlightedSample={highlightedSample}
                   type="binary"
                   className="w-full h-full"
                 />
               </Card>
             </div>
+
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="flex items-center justify-between mb-1">
+                <h2 className="text-xs font-semibold uppercase tracking-wide text-foreground">
+                  Byte Layout
+                </h2>
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={String(wordSize)}
+                    onValueChange={(value) => setWordSize(value === 'packed' ? 'packed' : (Number(value) as WordSize))}
+                  >
+                    <SelectTrigger className="h-6 w-32 text-xs" data-testid="select-word-size">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {([8, 16, 24, 32] as const).map((bits) => (
+                        <SelectItem key={bits} value={String(bits)} disabled={bits < getContainerBits(bitDepth)}>
+                          {bits}-bit words
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="packed">Packed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select value={byteOrder} onValueChange={(value: ByteOrder) => setByteOrder(value)}>
+                    <SelectTrigger className="h-6 w-32 text-xs" data-testid="select-byte-order">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="little-endian">Little-Endian</SelectItem>
+                      <SelectItem value="big-endian">Big-Endian</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Card className="flex-1 p-2 bg-card min-h-0" data-testid="card-byte-layout">
+                <HexDumpView
+                  sampleRate={sampleRate}
+                  bitDepth={bitDepth}
+                  source={source}
+                  quantizerSettings={quantizerSettings}
+                  binaryFormat={binaryFormat}
+                  wordSize={wordSize}
+                  byteOrder={byteOrder}
+                  timeOffset={timeOffset}
+                  highlightedSample={highlightedSample}
+                  className="w-full h-full"
+                />
+              </Card>
+            </div>
+
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="flex items-center justify-between mb-1">
+                <h2 className="text-xs font-semibold uppercase tracking-wide text-foreground">
+                  Frequency Spectrum
+                </h2>
+              </div>
+              {comparison.enabled && comparison.layout === 'side-by-side' ? (
+                <div className="flex-1 grid grid-cols-2 gap-2 min-h-0">
+                  {COMPARED_SLOTS.map((slot) => (
+                    <Card key={slot} className="relative p-2 bg-card min-h-0" data-testid={`card-spectrum-${slot.toLowerCase()}`}>
+                      {renderSpectrum(slot, null)}
+                      <ConfigBadge slot={slot} />
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <Card className="flex-1 p-2 bg-card min-h-0" data-testid="card-spectrum">
+                  {renderSpectrum('A', comparison.enabled ? configB : null)}
+                </Card>
+              )}
+            </div>
           </div>
         </main>
       </div>
+
+      {lessons.lesson && lessons.step && (
+        <LessonOverlay
+          lesson={lessons.lesson}
+          stepIndex={lessons.stepIndex}
+          step={lessons.step}
+          checkpointMet={lessons.checkpointMet}
+          onNext={lessons.next}
+          onBack={lessons.back}
+          onExit={lessons.exit}
+        />
+      )}
+
+      {hover && hoverDetails && (
+        <SampleTooltip details={hoverDetails} clientX={hover.clientX} clientY={hover.clientY} />
+      )}
     </div>
   );
 }
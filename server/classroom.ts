@@ -0,0 +1,200 @@
+import type { Server } from "http";
+import { randomBytes, randomInt } from "crypto";
+import { WebSocket, WebSocketServer } from "ws";
+import type { ShareableSettings } from "@shared/schema";
+import {
+  CLASSROOM_PATH,
+  JOIN_CODE_ALPHABET,
+  JOIN_CODE_LENGTH,
+  classroomClientMessageSchema,
+  type ClassroomServerMessage,
+} from "@shared/classroom";
+import { log } from "./vite";
+
+interface Room {
+  code: string;
+  hostToken: string;
+  host: WebSocket | null;
+  students: Set<WebSocket>;
+  // Latest teacher settings, sent to students as they join
+  settings: ShareableSettings | null;
+  // Closes the room if the teacher does not come back
+  closeTimer: NodeJS.Timeout | null;
+}
+
+// How long a room survives its teacher dropping out, to allow a reconnect
+const HOST_GRACE_MS = 5 * 60 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+function send(socket: WebSocket | null, message: ClassroomServerMessage) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Classroom rooms on the HTTP server: a teacher hosts a room under a join
+ * code and every settings change they make is relayed to the students in it.
+ */
+export function setupClassrooms(httpServer: Server) {
+  const rooms = new Map<string, Room>();
+  // Room each socket belongs to, for cleanup on close
+  const socketRooms = new Map<WebSocket, Room>();
+  const alive = new WeakSet<WebSocket>();
+
+  // noServer so upgrades for other paths (Vite's HMR socket) are left alone
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "", "http://localhost");
+    if (pathname !== CLASSROOM_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  const createCode = () => {
+    let code: string;
+    do {
+      code = Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[randomInt(JOIN_CODE_ALPHABET.length)]).join("");
+    } while (rooms.has(code));
+    return code;
+  };
+
+  const closeRoom = (room: Room) => {
+    if (room.closeTimer) {
+      clearTimeout(room.closeTimer);
+    }
+    room.students.forEach((student) => {
+      send(student, { type: "closed" });
+      socketRooms.delete(student);
+    });
+    rooms.delete(room.code);
+    log(`classroom ${room.code} closed`, "ws");
+  };
+
+  const notifyStudentCount = (room: Room) => {
+    send(room.host, { type: "students", studentCount: room.students.size });
+  };
+
+  const leave = (socket: WebSocket) => {
+    const room = socketRooms.get(socket);
+    if (!room) return;
+    socketRooms.delete(socket);
+
+    if (room.host === socket) {
+      room.host = null;
+      room.students.forEach((student) => send(student, { type: "teacher", connected: false }));
+      room.closeTimer = setTimeout(() => closeRoom(room), HOST_GRACE_MS);
+    } else {
+      room.students.delete(socket);
+      notifyStudentCount(room);
+    }
+  };
+
+  const becomeHost = (socket: WebSocket, room: Room) => {
+    if (room.closeTimer) {
+      clearTimeout(room.closeTimer);
+      room.closeTimer = null;
+    }
+    // A stale connection of the same teacher stops counting as the host
+    if (room.host && room.host !== socket) {
+      socketRooms.delete(room.host);
+      room.host.close();
+    }
+    room.host = socket;
+    socketRooms.set(socket, room);
+    send(socket, { type: "hosted", code: room.code, hostToken: room.hostToken, studentCount: room.students.size });
+    room.students.forEach((student) => send(student, { type: "teacher", connected: true }));
+  };
+
+  wss.on("connection", (socket) => {
+    alive.add(socket);
+    socket.on("pong", () => alive.add(socket));
+
+    socket.on("message", (data) => {
+      let parsed;
+      try {
+        parsed = classroomClientMessageSchema.safeParse(JSON.parse(data.toString()));
+      } catch {
+        parsed = null;
+      }
+      if (!parsed?.success) {
+        return send(socket, { type: "error", message: "Invalid message" });
+      }
+
+      const message = parsed.data;
+      switch (message.type) {
+        case "host": {
+          leave(socket);
+          if (message.resume) {
+            const room = rooms.get(message.resume.code);
+            if (!room || room.hostToken !== message.resume.hostToken) {
+              return send(socket, { type: "error", message: "That classroom has ended" });
+            }
+            return becomeHost(socket, room);
+          }
+
+          const room: Room = {
+            code: createCode(),
+            hostToken: randomBytes(16).toString("hex"),
+            host: null,
+            students: new Set(),
+            settings: null,
+            closeTimer: null,
+          };
+          rooms.set(room.code, room);
+          log(`classroom ${room.code} opened`, "ws");
+          return becomeHost(socket, room);
+        }
+
+        case "join": {
+          const room = rooms.get(message.code);
+          if (!room) {
+            return send(socket, { type: "error", message: `No classroom with code ${message.code}` });
+          }
+          leave(socket);
+          room.students.add(socket);
+          socketRooms.set(socket, room);
+          send(socket, { type: "joined", code: room.code, settings: room.settings, teacherConnected: room.host !== null });
+          return notifyStudentCount(room);
+        }
+
+        case "settings": {
+          const room = socketRooms.get(socket);
+          if (!room || room.host !== socket) {
+            return send(socket, { type: "error", message: "Only the teacher can change classroom settings" });
+          }
+          room.settings = message.settings;
+          room.students.forEach((student) => send(student, { type: "settings", settings: message.settings }));
+          return;
+        }
+
+        case "leave": {
+          const room = socketRooms.get(socket);
+          if (room?.host === socket) {
+            socketRooms.delete(socket);
+            closeRoom(room);
+          } else {
+            leave(socket);
+          }
+          return;
+        }
+      }
+    });
+
+    socket.on("close", () => leave(socket));
+  });
+
+  // Drop connections that vanished without a close frame (sleeping laptops, lost Wi-Fi)
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  httpServer.on("close", () => clearInterval(heartbeat));
+}
@@ -0,0 +1,122 @@
+import type session from "express-session";
+import { and, asc, desc, eq, isNull } from "drizzle-orm";
+import {
+  lessonProgress,
+  presets,
+  quizAttempts,
+  quizzes,
+  users,
+  type InsertLessonProgress,
+  type InsertPreset,
+  type InsertQuiz,
+  type InsertQuizAttempt,
+  type InsertUser,
+  type LessonProgress,
+  type Preset,
+  type Quiz,
+  type QuizAttempt,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import type { Database } from "./db";
+import type { IStorage } from "./storage";
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser, role: UserRole): Promise<User> {
+    const [user] = await this.db.insert(users).values({ ...insertUser, role }).returning();
+    return user;
+  }
+
+  async getPresets(userId: string | null): Promise<Preset[]> {
+    return this.db
+      .select()
+      .from(presets)
+      .where(userId === null ? isNull(presets.userId) : eq(presets.userId, userId))
+      .orderBy(asc(presets.name));
+  }
+
+  async getPreset(id: string): Promise<Preset | undefined> {
+    const [preset] = await this.db.select().from(presets).where(eq(presets.id, id));
+    return preset;
+  }
+
+  async createPreset(insertPreset: InsertPreset, userId: string | null): Promise<Preset> {
+    const [preset] = await this.db.insert(presets).values({ ...insertPreset, userId }).returning();
+    return preset;
+  }
+
+  async updatePreset(id: string, insertPreset: InsertPreset): Promise<Preset | undefined> {
+    const [preset] = await this.db
+      .update(presets)
+      .set({ ...insertPreset, updatedAt: new Date() })
+      .where(eq(presets.id, id))
+      .returning();
+    return preset;
+  }
+
+  async deletePreset(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(presets).where(eq(presets.id, id)).returning({ id: presets.id });
+    return deleted.length > 0;
+  }
+
+  async getLessonProgress(userId: string): Promise<LessonProgress[]> {
+    return this.db.select().from(lessonProgress).where(eq(lessonProgress.userId, userId));
+  }
+
+  async saveLessonProgress(userId: string, { lessonId, completedSteps, completed }: InsertLessonProgress): Promise<LessonProgress> {
+    const now = new Date();
+    const [existing] = await this.db
+      .select()
+      .from(lessonProgress)
+      .where(and(eq(lessonProgress.userId, userId), eq(lessonProgress.lessonId, lessonId)));
+    const values = {
+      completedSteps,
+      // Keep the first completion time when a finished lesson is replayed
+      completedAt: completed ? existing?.completedAt ?? now : null,
+      updatedAt: now,
+    };
+
+    const [progress] = await this.db
+      .insert(lessonProgress)
+      .values({ userId, lessonId, ...values })
+      .onConflictDoUpdate({ target: [lessonProgress.userId, lessonProgress.lessonId], set: values })
+      .returning();
+    return progress;
+  }
+
+  async createQuiz(userId: string, insertQuiz: InsertQuiz): Promise<Quiz> {
+    const [quiz] = await this.db.insert(quizzes).values({ ...insertQuiz, userId }).returning();
+    return quiz;
+  }
+
+  async getQuiz(id: string): Promise<Quiz | undefined> {
+    const [quiz] = await this.db.select().from(quizzes).where(eq(quizzes.id, id));
+    return quiz;
+  }
+
+  async deleteQuiz(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(quizzes).where(eq(quizzes.id, id)).returning({ id: quizzes.id });
+    return deleted.length > 0;
+  }
+
+  async getQuizAttempts(userId: string): Promise<QuizAttempt[]> {
+    return this.db.select().from(quizAttempts).where(eq(quizAttempts.userId, userId)).orderBy(desc(quizAttempts.createdAt));
+  }
+
+  async createQuizAttempt(userId: string, insertAttempt: InsertQuizAttempt): Promise<QuizAttempt> {
+    const [attempt] = await this.db.insert(quizAttempts).values({ ...insertAttempt, userId }).returning();
+    return attempt;
+  }
+}
@@ -0,0 +1,22 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// A local Postgres has no WebSocket endpoint of its own; point this at a
+// proxy such as neondatabase/wsproxy running next to it, e.g. "localhost:5433/v1"
+if (process.env.DATABASE_WS_PROXY) {
+  neonConfig.wsProxy = process.env.DATABASE_WS_PROXY;
+  neonConfig.useSecureWebSocket = false;
+  neonConfig.pipelineTLS = false;
+  neonConfig.pipelineConnect = false;
+}
+
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+export type Database = ReturnType<typeof createDb>;
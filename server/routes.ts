@@ -1,15 +1,167 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import type { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { insertLessonProgressSchema, insertPresetSchema } from "@shared/schema";
+import { QUIZ_LENGTH, generateQuiz, gradeAnswer, submitQuizSchema } from "@shared/quiz";
+import { requireAuth, setupAuth } from "./auth";
+import { setupClassrooms } from "./classroom";
 import { storage } from "./storage";
 
+function sendValidationError(res: Response, error: ZodError) {
+  res.status(400).json({ message: fromZodError(error).message });
+}
+
+// Signed-in users own their presets; anonymous visitors share the unowned ones
+function getOwnerId(req: Request): string | null {
+  return req.user?.id ?? null;
+}
+
+// Presets belonging to someone else are reported as missing
+async function getOwnPreset(req: Request) {
+  const preset = await storage.getPreset(req.params.id);
+  return preset && preset.userId === getOwnerId(req) ? preset : undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // put application routes here
-  // prefix all routes with /api
+  setupAuth(app);
+
+  app.get("/api/presets", async (req, res, next) => {
+    try {
+      res.json(await storage.getPresets(getOwnerId(req)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/presets/:id", async (req, res, next) => {
+    try {
+      const preset = await getOwnPreset(req);
+      if (!preset) {
+        return res.status(404).json({ message: "Preset not found" });
+      }
+      res.json(preset);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/presets", async (req, res, next) => {
+    const parsed = insertPresetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      res.status(201).json(await storage.createPreset(parsed.data, getOwnerId(req)));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put("/api/presets/:id", async (req, res, next) => {
+    const parsed = insertPresetSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      if (!(await getOwnPreset(req))) {
+        return res.status(404).json({ message: "Preset not found" });
+      }
+      // The preset can be deleted between the ownership check and the update
+      const preset = await storage.updatePreset(req.params.id, parsed.data);
+      if (!preset) {
+        return res.status(404).json({ message: "Preset not found" });
+      }
+      res.json(preset);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete("/api/presets/:id", async (req, res, next) => {
+    try {
+      if (!(await getOwnPreset(req))) {
+        return res.status(404).json({ message: "Preset not found" });
+      }
+      await storage.deletePreset(req.params.id);
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/lesson-progress", requireAuth, async (req, res, next) => {
+    try {
+      res.json(await storage.getLessonProgress(req.user!.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put("/api/lesson-progress/:lessonId", requireAuth, async (req, res, next) => {
+    const parsed = insertLessonProgressSchema.safeParse({ ...req.body, lessonId: req.params.lessonId });
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
+
+    try {
+      res.json(await storage.saveLessonProgress(req.user!.id, parsed.data));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get("/api/quiz-attempts", requireAuth, async (req, res, next) => {
+    try {
+      res.json(await storage.getQuizAttempts(req.user!.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // The questions stay on the server so submitted answers are graded against them
+  app.post("/api/quizzes", requireAuth, async (req, res, next) => {
+    try {
+      res.status(201).json(await storage.createQuiz(req.user!.id, { questions: generateQuiz(QUIZ_LENGTH) }));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.post("/api/quiz-attempts", requireAuth, async (req, res, next) => {
+    const parsed = submitQuizSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendValidationError(res, parsed.error);
+    }
 
-  // use storage to perform CRUD operations on the storage interface
-  // e.g. storage.insertUser(user) or storage.getUserByUsername(username)
+    try {
+      const quiz = await storage.getQuiz(parsed.data.quizId);
+      if (!quiz || quiz.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      if (parsed.data.answers.length !== quiz.questions.length) {
+        return res.status(400).json({ message: `Expected ${quiz.questions.length} answers` });
+      }
+      // Each quiz is graded once, so it can't be retaken after the correct answers are shown
+      if (!(await storage.deleteQuiz(quiz.id))) {
+        return res.status(404).json({ message: "Quiz not found" });
+      }
+      const answers = quiz.questions.map((question, i) => gradeAnswer(question, parsed.data.answers[i]));
+      const attempt = await storage.createQuizAttempt(req.user!.id, {
+        score: answers.filter((answer) => answer.correct).length,
+        total: answers.length,
+        answers,
+      });
+      res.status(201).json(attempt);
+    } catch (err) {
+      next(err);
+    }
+  });
 
   const httpServer = createServer(app);
+  setupClassrooms(httpServer);
 
   return httpServer;
 }
@@ -0,0 +1,171 @@
+import { randomUUID } from "crypto";
+import { beforeAll, describe, expect, it } from "vitest";
+import type { InsertPreset, ShareableSettings, User } from "@shared/schema";
+import { DEFAULT_QUANTIZER_SETTINGS } from "@shared/dsp";
+import { generateQuiz, gradeAnswer } from "@shared/quiz";
+import { createStorage, type IStorage, type StorageKind } from "./storage";
+
+// STORAGE picks one backend; otherwise memory always runs and the database
+// joins it when DATABASE_URL is set. Database runs leave their rows behind,
+// so every test works under a user of its own.
+const KINDS: StorageKind[] = process.env.STORAGE
+  ? [process.env.STORAGE as StorageKind]
+  : process.env.DATABASE_URL
+    ? ["memory", "database"]
+    : ["memory"];
+
+const SETTINGS: ShareableSettings = {
+  sampleRate: 8000,
+  bitDepth: 8,
+  quantizerSettings: DEFAULT_QUANTIZER_SETTINGS,
+  frequency: 440,
+  waveformType: "sine",
+  harmonics: [{ harmonic: 1, amplitude: 1, phase: 0 }],
+  oscillatorMode: "naive",
+  testSignal: { sweepEndFrequency: 20000, sweepDuration: 1, secondFrequency: 550, dcLevel: 0.5 },
+  input: { gainDb: 0, dcOffset: 0, phase: 0 },
+  zoomLevel: 100,
+  timeOffset: 0,
+  reconstructionMode: "sinc",
+  binaryFormat: "offset-binary",
+  wordSize: 16,
+  byteOrder: "little-endian",
+  comparison: { enabled: false, editing: "A", listening: "A", layout: "side-by-side" },
+  configB: { sampleRate: 8000, bitDepth: 8, quantizerSettings: DEFAULT_QUANTIZER_SETTINGS },
+};
+
+function preset(name: string, sampleRate = 8000): InsertPreset {
+  return { name, settings: { ...SETTINGS, sampleRate } };
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe.each(KINDS)("%s storage", (kind) => {
+  let storage: IStorage;
+  const createUser = () => storage.createUser({ username: `user-${randomUUID()}`, password: "hash.salt" }, "student");
+
+  beforeAll(() => {
+    storage = createStorage(kind);
+  });
+
+  describe("users", () => {
+    it("finds a created user by id and by username", async () => {
+      const user = await createUser();
+      expect(user.id).toBeTruthy();
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername(user.username)).toEqual(user);
+    });
+
+    it("stores the role it is given", async () => {
+      const teacher = await storage.createUser({ username: `teacher-${randomUUID()}`, password: "hash.salt" }, "teacher");
+      expect((await storage.getUser(teacher.id))?.role).toBe("teacher");
+    });
+
+    it("resolves to undefined for unknown users", async () => {
+      expect(await storage.getUser(randomUUID())).toBeUndefined();
+      expect(await storage.getUserByUsername(`user-${randomUUID()}`)).toBeUndefined();
+    });
+  });
+
+  describe("presets", () => {
+    let owner: User;
+
+    beforeAll(async () => {
+      owner = await createUser();
+    });
+
+    it("lists a user's presets by name, leaving out everyone else's", async () => {
+      const user = await createUser();
+      await storage.createPreset(preset("Telephone"), user.id);
+      await storage.createPreset(preset("CD"), user.id);
+      await storage.createPreset(preset("Other"), owner.id);
+      const anonymous = await storage.createPreset(preset(`Anonymous ${randomUUID()}`), null);
+
+      expect((await storage.getPresets(user.id)).map((p) => p.name)).toEqual(["CD", "Telephone"]);
+      const unowned = await storage.getPresets(null);
+      expect(unowned.map((p) => p.id)).toContain(anonymous.id);
+      expect(unowned.every((p) => p.userId === null)).toBe(true);
+    });
+
+    it("stores settings as given", async () => {
+      const created = await storage.createPreset(preset("Hi-res", 96000), owner.id);
+      expect(created.userId).toBe(owner.id);
+      expect(await storage.getPreset(created.id)).toEqual(created);
+      expect(created.settings.sampleRate).toBe(96000);
+    });
+
+    it("updates a preset in place", async () => {
+      const created = await storage.createPreset(preset("Before"), owner.id);
+      await delay(5);
+      const updated = await storage.updatePreset(created.id, preset("After", 44100));
+      expect(updated).toMatchObject({ id: created.id, userId: owner.id, name: "After" });
+      expect(updated?.settings.sampleRate).toBe(44100);
+      expect(updated!.updatedAt.getTime()).toBeGreaterThan(created.updatedAt.getTime());
+      expect(await storage.getPreset(created.id)).toEqual(updated);
+    });
+
+    it("resolves to undefined when updating a missing preset", async () => {
+      expect(await storage.updatePreset(randomUUID(), preset("Missing"))).toBeUndefined();
+    });
+
+    it("deletes a preset once", async () => {
+      const created = await storage.createPreset(preset("Doomed"), owner.id);
+      expect(await storage.deletePreset(created.id)).toBe(true);
+      expect(await storage.getPreset(created.id)).toBeUndefined();
+      expect(await storage.deletePreset(created.id)).toBe(false);
+    });
+  });
+
+  describe("lesson progress", () => {
+    it("keeps one row per user and lesson", async () => {
+      const user = await createUser();
+      const first = await storage.saveLessonProgress(user.id, { lessonId: "nyquist", completedSteps: 1, completed: false });
+      const second = await storage.saveLessonProgress(user.id, { lessonId: "nyquist", completedSteps: 3, completed: false });
+      await storage.saveLessonProgress(user.id, { lessonId: "dither", completedSteps: 1, completed: false });
+
+      expect(second.id).toBe(first.id);
+      expect(second.completedSteps).toBe(3);
+      const progress = await storage.getLessonProgress(user.id);
+      expect(progress.map((p) => p.lessonId).sort()).toEqual(["dither", "nyquist"]);
+      expect(await storage.getLessonProgress((await createUser()).id)).toEqual([]);
+    });
+
+    it("keeps the first completion time when a lesson is replayed", async () => {
+      const user = await createUser();
+      const started = await storage.saveLessonProgress(user.id, { lessonId: "nyquist", completedSteps: 2, completed: false });
+      expect(started.completedAt).toBeNull();
+
+      const finished = await storage.saveLessonProgress(user.id, { lessonId: "nyquist", completedSteps: 4, completed: true });
+      await delay(5);
+      const replayed = await storage.saveLessonProgress(user.id, { lessonId: "nyquist", completedSteps: 4, completed: true });
+      expect(finished.completedAt).toBeInstanceOf(Date);
+      expect(replayed.completedAt).toEqual(finished.completedAt);
+    });
+  });
+
+  describe("quizzes", () => {
+    it("keeps issued questions until the quiz is deleted", async () => {
+      const user = await createUser();
+      const questions = generateQuiz(5);
+      const quiz = await storage.createQuiz(user.id, { questions });
+
+      expect(quiz).toMatchObject({ userId: user.id, questions });
+      expect(await storage.getQuiz(quiz.id)).toEqual(quiz);
+      expect(await storage.deleteQuiz(quiz.id)).toBe(true);
+      expect(await storage.getQuiz(quiz.id)).toBeUndefined();
+      expect(await storage.deleteQuiz(quiz.id)).toBe(false);
+    });
+
+    it("lists a user's attempts newest first", async () => {
+      const user = await createUser();
+      const answers = generateQuiz(2).map((question) => gradeAnswer(question, null));
+      const older = await storage.createQuizAttempt(user.id, { score: 0, total: 2, answers });
+      await delay(5);
+      const newer = await storage.createQuizAttempt(user.id, { score: 1, total: 2, answers });
+      await storage.createQuizAttempt((await createUser()).id, { score: 2, total: 2, answers });
+
+      expect(newer.answers).toEqual(answers);
+      expect((await storage.getQuizAttempts(user.id)).map((attempt) => attempt.id)).toEqual([newer.id, older.id]);
+    });
+  });
+});
@@ -1,9 +1,194 @@
+import { randomUUID } from "crypto";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import {
+  type InsertLessonProgress,
+  type InsertPreset,
+  type InsertQuiz,
+  type InsertQuizAttempt,
+  type InsertUser,
+  type LessonProgress,
+  type Preset,
+  type Quiz,
+  type QuizAttempt,
+  type User,
+  type UserRole,
+} from "@shared/schema";
+import { createDb } from "./db";
+import { DatabaseStorage } from "./database-storage";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
 export interface IStorage {
+  // Login sessions live next to the users they belong to
+  sessionStore: session.Store;
+
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(user: InsertUser, role: UserRole): Promise<User>;
+
+  // Presets owned by the user, or the unowned ones for a null user
+  getPresets(userId: string | null): Promise<Preset[]>;
+  getPreset(id: string): Promise<Preset | undefined>;
+  createPreset(preset: InsertPreset, userId: string | null): Promise<Preset>;
+  // Resolves to undefined when no preset has the id
+  updatePreset(id: string, preset: InsertPreset): Promise<Preset | undefined>;
+  deletePreset(id: string): Promise<boolean>;
+
+  getLessonProgress(userId: string): Promise<LessonProgress[]>;
+  // Creates or replaces the user's progress through one lesson
+  saveLessonProgress(userId: string, progress: InsertLessonProgress): Promise<LessonProgress>;
+
+  createQuiz(userId: string, quiz: InsertQuiz): Promise<Quiz>;
+  getQuiz(id: string): Promise<Quiz | undefined>;
+  // Resolves to false when no quiz has the id, e.g. it was already deleted
+  deleteQuiz(id: string): Promise<boolean>;
+
+  // Newest first
+  getQuizAttempts(userId: string): Promise<QuizAttempt[]>;
+  createQuizAttempt(userId: string, attempt: InsertQuizAttempt): Promise<QuizAttempt>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
+  private users: Map<string, User>;
+  private presets: Map<string, Preset>;
+  // Keyed by `${userId}:${lessonId}`
+  private lessonProgress: Map<string, LessonProgress>;
+  private quizzes: Map<string, Quiz>;
+  private quizAttempts: Map<string, QuizAttempt>;
+
   constructor() {
+    this.users = new Map();
+    this.presets = new Map();
+    this.lessonProgress = new Map();
+    this.quizzes = new Map();
+    this.quizAttempts = new Map();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000, // prune expired sessions daily
+    });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser, role: UserRole): Promise<User> {
+    const id = randomUUID();
+    const user: User = { ...insertUser, id, role };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async getPresets(userId: string | null): Promise<Preset[]> {
+    return Array.from(this.presets.values())
+      .filter((preset) => preset.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPreset(id: string): Promise<Preset | undefined> {
+    return this.presets.get(id);
+  }
+
+  async createPreset(insertPreset: InsertPreset, userId: string | null): Promise<Preset> {
+    const id = randomUUID();
+    const preset: Preset = { ...insertPreset, id, userId, updatedAt: new Date() };
+    this.presets.set(id, preset);
+    return preset;
+  }
+
+  async updatePreset(id: string, insertPreset: InsertPreset): Promise<Preset | undefined> {
+    const existing = this.presets.get(id);
+    if (!existing) return undefined;
+    const preset: Preset = { ...existing, ...insertPreset, updatedAt: new Date() };
+    this.presets.set(id, preset);
+    return preset;
+  }
+
+  async deletePreset(id: string): Promise<boolean> {
+    return this.presets.delete(id);
+  }
+
+  async getLessonProgress(userId: string): Promise<LessonProgress[]> {
+    return Array.from(this.lessonProgress.values()).filter((progress) => progress.userId === userId);
+  }
+
+  async saveLessonProgress(userId: string, { lessonId, completedSteps, completed }: InsertLessonProgress): Promise<LessonProgress> {
+    const key = `${userId}:${lessonId}`;
+    const existing = this.lessonProgress.get(key);
+    const now = new Date();
+    const progress: LessonProgress = {
+      id: existing?.id ?? randomUUID(),
+      userId,
+      lessonId,
+      completedSteps,
+      // Keep the first completion time when a finished lesson is replayed
+      completedAt: completed ? existing?.completedAt ?? now : null,
+      updatedAt: now,
+    };
+    this.lessonProgress.set(key, progress);
+    return progress;
+  }
+
+  async createQuiz(userId: string, insertQuiz: InsertQuiz): Promise<Quiz> {
+    const id = randomUUID();
+    const quiz: Quiz = { ...insertQuiz, id, userId, createdAt: new Date() };
+    this.quizzes.set(id, quiz);
+    return quiz;
+  }
+
+  async getQuiz(id: string): Promise<Quiz | undefined> {
+    return this.quizzes.get(id);
+  }
+
+  async deleteQuiz(id: string): Promise<boolean> {
+    return this.quizzes.delete(id);
+  }
+
+  async getQuizAttempts(userId: string): Promise<QuizAttempt[]> {
+    return Array.from(this.quizAttempts.values())
+      .filter((attempt) => attempt.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createQuizAttempt(userId: string, insertAttempt: InsertQuizAttempt): Promise<QuizAttempt> {
+    const id = randomUUID();
+    const attempt: QuizAttempt = { ...insertAttempt, id, userId, createdAt: new Date() };
+    this.quizAttempts.set(id, attempt);
+    return attempt;
+  }
+}
+
+export type StorageKind = "memory" | "database";
+
+/**
+ * Picks the storage backend from `STORAGE` ("memory" or "database"). Without
+ * it the database is used whenever `DATABASE_URL` is set, so a test run can
+ * force either one through the environment.
+ */
+export function createStorage(
+  kind: StorageKind = (process.env.STORAGE as StorageKind | undefined) ?? (process.env.DATABASE_URL ? "database" : "memory"),
+): IStorage {
+  switch (kind) {
+    case "memory":
+      return new MemStorage();
+    case "database":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE=database requires DATABASE_URL");
+      }
+      return new DatabaseStorage(
+        createDb(process.env.DATABASE_URL),
+        new PostgresSessionStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true }),
+      );
+    default:
+      throw new Error(`Unknown STORAGE "${kind}", expected "memory" or "database"`);
   }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
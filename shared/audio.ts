@@ -0,0 +1,167 @@
+// Shapes repeating at the tone frequency, described by a harmonic series.
+// 'custom' is built from the user's own harmonics
+export type PeriodicWaveformType = 'sine' | 'square' | 'triangle' | 'sawtooth' | 'custom';
+
+// Converter test signals, generated directly rather than from harmonics
+export type TestSignalType = 'white-noise' | 'pink-noise' | 'linear-chirp' | 'log-chirp' | 'impulse' | 'dc' | 'two-tone';
+
+export type WaveformType = PeriodicWaveformType | TestSignalType;
+
+const PERIODIC_WAVEFORM_TYPES: readonly WaveformType[] = ['sine', 'square', 'triangle', 'sawtooth', 'custom'];
+
+export function isPeriodicWaveform(type: WaveformType): type is PeriodicWaveformType {
+  return PERIODIC_WAVEFORM_TYPES.includes(type);
+}
+
+// Parameters of the test signals; the tone frequency sets the rest
+export interface TestSignalSettings {
+  // Chirps sweep from the tone frequency to this one
+  sweepEndFrequency: number;
+  // Seconds per sweep, after which the chirp starts over
+  sweepDuration: number;
+  // The two-tone signal's second tone
+  secondFrequency: number;
+  // Level of the DC signal, in full-scale units
+  dcLevel: number;
+}
+
+// A sinusoidal component of a periodic waveform: amplitude * sin(harmonic * ωt + phase)
+export interface HarmonicPartial {
+  harmonic: number;
+  amplitude: number;
+  phase: number;
+}
+
+// Most partials a custom waveform may have, and the highest harmonic number
+export const MAX_HARMONICS = 32;
+export const MAX_HARMONIC_NUMBER = 128;
+
+// Top of the sample rate slider, and of the worklet's target rate
+export const MAX_SAMPLE_RATE = 96000;
+
+// Range of the input gain, in dBFS
+export const MIN_INPUT_GAIN_DB = -60;
+export const MAX_INPUT_GAIN_DB = 12;
+
+export type ReconstructionMode = 'sinc' | 'hold';
+
+// Naive waveforms are the ideal shapes; band-limited ones drop partials above Nyquist
+export type OscillatorMode = 'naive' | 'band-limited';
+
+export type DitherType = 'none' | 'rpdf' | 'tpdf' | 'gaussian';
+
+export type NoiseShapingType = 'none' | 'first-order' | 'second-order' | 'wannamaker-3' | 'lipshitz-5';
+
+// Mid-rise has no zero output level; mid-tread has one (two's complement style)
+export type QuantizerCharacteristic = 'mid-rise' | 'mid-tread';
+
+export type RoundingMode = 'floor' | 'round';
+
+export type CompandingLaw = 'none' | 'mu-law' | 'a-law';
+
+// What the converter does with input beyond full scale: clamp it, saturate
+// smoothly towards it, or wrap around like an overflowing two's complement register
+export type OverflowMode = 'hard-clip' | 'soft-clip' | 'wrap';
+
+export interface QuantizerSettings {
+  characteristic: QuantizerCharacteristic;
+  rounding: RoundingMode;
+  companding: CompandingLaw;
+  dither: DitherType;
+  noiseShaping: NoiseShapingType;
+  overflow: OverflowMode;
+}
+
+// Level and position of the source as it reaches the converter
+export interface InputSettings {
+  // Gain relative to full scale, in dB; above 0 dBFS the source overflows
+  gainDb: number;
+  // Added after the gain, in full-scale units
+  dcOffset: number;
+  // Shift of the generated source, in radians of the tone frequency
+  phase: number;
+}
+
+// The settings that differ between the two sides of an A/B comparison
+export interface SamplingConfig {
+  sampleRate: number;
+  bitDepth: number;
+  quantizerSettings: QuantizerSettings;
+}
+
+// How level codes are written out in the binary stream
+export type BinaryFormat = 'offset-binary' | 'twos-complement' | 'sign-magnitude' | 'gray' | 'hex';
+
+export type ByteOrder = 'little-endian' | 'big-endian';
+
+// Bits per stored word; 'packed' writes samples back to back with no padding
+export type WordSize = 8 | 16 | 24 | 32 | 'packed';
+
+export interface AudioSettings {
+  sampleRate: number;
+  bitDepth: number;
+  frequency: number;
+  isPlaying: boolean;
+  waveformType: WaveformType;
+}
+
+export interface QuantizationInfo {
+  levels: number;
+  nyquistFrequency: number;
+  estimatedSize: number;
+}
+
+/**
+ * Value of the waveform at time `t`. A 'custom' waveform is the plain sum of
+ * `harmonics`; see normalizeHarmonics() for keeping it within full scale.
+ */
+export function generateWaveform(t: number, frequency: number, type: PeriodicWaveformType, harmonics: HarmonicPartial[] = []): number {
+  const phase = 2 * Math.PI * frequency * t;
+
+  switch (type) {
+    case 'sine':
+      return Math.sin(phase);
+    case 'square':
+      return Math.sin(phase) >= 0 ? 1 : -1;
+    case 'triangle':
+      return (2 / Math.PI) * Math.asin(Math.sin(phase));
+    case 'sawtooth':
+      return 2 * ((frequency * t) % 1) - 1;
+    case 'custom':
+      return harmonics.reduce(
+        (sum, partial) => sum + partial.amplitude * Math.sin(partial.harmonic * phase + partial.phase),
+        0,
+      );
+    default:
+      return Math.sin(phase);
+  }
+}
+
+export function generateStaticWaveformPath(
+  type: PeriodicWaveformType,
+  width: number,
+  height: number,
+  periods: number = 2,
+  harmonics: HarmonicPartial[] = [],
+): string {
+  const centerY = height / 2;
+  const amplitude = height * 0.35;
+  const points: string[] = [];
+
+  const samplesPerPeriod = 100;
+  const totalSamples = samplesPerPeriod * periods;
+
+  for (let i = 0; i <= totalSamples; i++) {
+    const x = (i / totalSamples) * width;
+    const t = (i / samplesPerPeriod);
+    const y = centerY - generateWaveform(t, 1, type, harmonics) * amplitude;
+
+    if (i === 0) {
+      points.push(`M ${x} ${y}`);
+    } else {
+      points.push(`L ${x} ${y}`);
+    }
+  }
+
+  return points.join(' ');
+}
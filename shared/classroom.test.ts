@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { classroomClientMessageSchema } from "./classroom";
+import { DEFAULT_QUANTIZER_SETTINGS } from "./dsp";
+import type { ShareableSettings } from "./schema";
+
+const SETTINGS: ShareableSettings = {
+  sampleRate: 8000,
+  bitDepth: 8,
+  quantizerSettings: DEFAULT_QUANTIZER_SETTINGS,
+  frequency: 440,
+  waveformType: "sine",
+  harmonics: [{ harmonic: 1, amplitude: 1, phase: 0 }],
+  oscillatorMode: "naive",
+  testSignal: { sweepEndFrequency: 20000, sweepDuration: 1, secondFrequency: 550, dcLevel: 0.5 },
+  input: { gainDb: 0, dcOffset: 0, phase: 0 },
+  zoomLevel: 100,
+  timeOffset: 0,
+  reconstructionMode: "sinc",
+  binaryFormat: "offset-binary",
+  wordSize: 16,
+  byteOrder: "little-endian",
+  comparison: { enabled: false, editing: "A", listening: "A", layout: "side-by-side" },
+  configB: { sampleRate: 8000, bitDepth: 8, quantizerSettings: DEFAULT_QUANTIZER_SETTINGS },
+};
+
+describe("classroomClientMessageSchema", () => {
+  it("accepts settings broadcast at the top of the sample rate range", () => {
+    const settings = { ...SETTINGS, sampleRate: 96000, configB: { ...SETTINGS.configB, sampleRate: 96000 } };
+    // Messages arrive as JSON text over the socket
+    const parsed = classroomClientMessageSchema.safeParse(JSON.parse(JSON.stringify({ type: "settings", settings })));
+    expect(parsed.success && parsed.data).toEqual({ type: "settings", settings });
+  });
+
+  it("rejects settings outside the schema", () => {
+    const settings = { ...SETTINGS, sampleRate: 96001 };
+    expect(classroomClientMessageSchema.safeParse({ type: "settings", settings }).success).toBe(false);
+  });
+
+  it("normalizes join codes", () => {
+    expect(classroomClientMessageSchema.parse({ type: "join", code: " abc234 " })).toEqual({ type: "join", code: "ABC234" });
+  });
+});
@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { shareableSettingsSchema, type ShareableSettings } from "./schema";
+
+export const CLASSROOM_PATH = '/ws/classroom';
+
+// Unambiguous when read aloud or copied from a projector: no 0/O or 1/I/L
+export const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const JOIN_CODE_LENGTH = 6;
+
+export const classroomClientMessageSchema = z.discriminatedUnion('type', [
+  // Opens a room, or takes an existing one back after reconnecting
+  z.object({
+    type: z.literal('host'),
+    resume: z.object({ code: z.string(), hostToken: z.string() }).optional(),
+  }),
+  z.object({ type: z.literal('join'), code: z.string().trim().toUpperCase() }),
+  // Only accepted from the room's host
+  z.object({ type: z.literal('settings'), settings: shareableSettingsSchema }),
+  // Leaving on purpose; a teacher leaving ends the room instead of waiting for a reconnect
+  z.object({ type: z.literal('leave') }),
+]);
+
+export type ClassroomClientMessage = z.infer<typeof classroomClientMessageSchema>;
+
+export type ClassroomServerMessage =
+  // hostToken lets the teacher reclaim the room from a new connection
+  | { type: 'hosted'; code: string; hostToken: string; studentCount: number }
+  // settings are the teacher's latest, or null before the first broadcast
+  | { type: 'joined'; code: string; settings: ShareableSettings | null; teacherConnected: boolean }
+  | { type: 'settings'; settings: ShareableSettings }
+  | { type: 'students'; studentCount: number }
+  | { type: 'teacher'; connected: boolean }
+  // The teacher left for good; the room no longer exists
+  | { type: 'closed' }
+  | { type: 'error'; message: string };
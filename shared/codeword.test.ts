@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { formatCodeword, toCodeword } from "./codeword";
+
+describe("toCodeword", () => {
+  it("mirrors mid-rise codes about the midpoint for sign-magnitude", () => {
+    // 3-bit mid-rise levels run -7/7 .. +7/7 in odd steps, so there is a -0 and a +0
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map((code) => formatCodeword(code, 3, "sign-magnitude"))).toEqual([
+      "111", "110", "101", "100", "000", "001", "010", "011",
+    ]);
+  });
+
+  it("counts mid-tread sign-magnitude codes away from zero", () => {
+    // 3-bit mid-tread levels are -4 .. +3 steps with zero at code 4
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map((code) => formatCodeword(code, 3, "sign-magnitude", "mid-tread"))).toEqual([
+      "111", "111", "110", "101", "000", "001", "010", "011",
+    ]);
+  });
+
+  it("keeps 32-bit mid-tread codewords within 32 bits", () => {
+    expect(toCodeword(0, 32, "sign-magnitude", "mid-tread")).toBe(2 ** 32 - 1);
+    expect(toCodeword(2 ** 31 - 1, 32, "sign-magnitude", "mid-tread")).toBe(2 ** 31 + 1);
+  });
+
+  it("ignores the characteristic for the other formats", () => {
+    for (const format of ["offset-binary", "twos-complement", "gray", "hex"] as const) {
+      for (let code = 0; code < 8; code++) {
+        expect(toCodeword(code, 3, format, "mid-tread")).toBe(toCodeword(code, 3, format));
+      }
+    }
+  });
+});
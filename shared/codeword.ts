@@ -0,0 +1,64 @@
+import { BinaryFormat, QuantizerCharacteristic } from "./audio";
+import { getQuantizationLevels } from "./dsp";
+
+export const BINARY_FORMAT_LABELS: Record<BinaryFormat, string> = {
+  'offset-binary': 'Offset Binary',
+  'twos-complement': "Two's Complement",
+  'sign-magnitude': 'Sign-Magnitude',
+  'gray': 'Gray Code',
+  'hex': "Hex (Two's Complement)",
+};
+
+/**
+ * Converts an unsigned level code (0 .. 2^bitDepth - 1, as produced by
+ * encode()) into the bit pattern stored by the given format. Codes at or
+ * above the midpoint are positive. Hex uses the two's complement pattern.
+ * Sign-magnitude depends on where the quantizer puts zero, so it needs the
+ * characteristic the codes were encoded with.
+ */
+export function toCodeword(
+  code: number,
+  bitDepth: number,
+  format: BinaryFormat,
+  characteristic: QuantizerCharacteristic = 'mid-rise',
+): number {
+  // Arithmetic rather than bitwise operators so 32-bit codes stay positive
+  const quantizationLevels = getQuantizationLevels(bitDepth);
+  const half = quantizationLevels / 2;
+
+  switch (format) {
+    case 'twos-complement':
+    case 'hex':
+      // Flipping the MSB of offset binary gives two's complement
+      return (code + half) % quantizationLevels;
+    case 'sign-magnitude':
+      if (characteristic === 'mid-tread') {
+        // The midpoint is zero and levels count away from it. The most negative level
+        // has no magnitude that fits beside the sign bit, so it shares -(half - 1)'s code
+        return code >= half ? code - half : half + Math.min(half - code, half - 1);
+      }
+      // The lower half mirrors the upper half, so the level just below the midpoint is -0
+      return code >= half ? code - half : half + (half - 1 - code);
+    case 'gray':
+      return (code ^ Math.floor(code / 2)) >>> 0;
+    default:
+      return code;
+  }
+}
+
+/**
+ * Codeword as printed in the binary stream: `bitDepth` binary digits, or
+ * one hex digit per 4 bits. The first character holds the MSB (sign bit).
+ */
+export function formatCodeword(
+  code: number,
+  bitDepth: number,
+  format: BinaryFormat,
+  characteristic: QuantizerCharacteristic = 'mid-rise',
+): string {
+  const codeword = toCodeword(code, bitDepth, format, characteristic);
+  if (format === 'hex') {
+    return codeword.toString(16).toUpperCase().padStart(Math.ceil(bitDepth / 4), '0');
+  }
+  return codeword.toString(2).padStart(bitDepth, '0');
+}
@@ -0,0 +1,239 @@
+import { describe, expect, it } from "vitest";
+import type { QuantizerSettings } from "./audio";
+import {
+  DEFAULT_QUANTIZER_SETTINGS,
+  decode,
+  encode,
+  getLsbSize,
+  getQuantizationLevels,
+  levelToValue,
+  measureQuantization,
+  quantize,
+  quantizeToLevel,
+  quantizeValue,
+  reconstruct,
+  sample,
+} from "./dsp";
+
+const MID_RISE_ROUND: QuantizerSettings = { ...DEFAULT_QUANTIZER_SETTINGS, rounding: "round" };
+const MID_TREAD_ROUND: QuantizerSettings = { ...DEFAULT_QUANTIZER_SETTINGS, characteristic: "mid-tread", rounding: "round" };
+
+// Every combination of characteristic and rounding, uniform and companded
+const QUANTIZERS: QuantizerSettings[] = (["mid-rise", "mid-tread"] as const).flatMap((characteristic) =>
+  (["floor", "round"] as const).flatMap((rounding) =>
+    (["none", "mu-law", "a-law"] as const).map((companding) => ({
+      ...DEFAULT_QUANTIZER_SETTINGS,
+      characteristic,
+      rounding,
+      companding,
+    })),
+  ),
+);
+
+function ramp(count: number, from = -1, to = 1): Float32Array {
+  return sample((t) => from + (to - from) * t, count - 1, count);
+}
+
+describe("quantizeToLevel", () => {
+  it("truncates onto the mid-rise grid by default", () => {
+    expect([-1, -0.76, -0.74, -0.01, 0, 0.24, 0.26, 0.99].map((v) => quantizeToLevel(v, 3))).toEqual([
+      0, 0, 1, 3, 4, 4, 5, 7,
+    ]);
+  });
+
+  it("rounds to the nearest mid-rise level", () => {
+    // Levels sit at -1 + 2k/7
+    expect([-1, -0.86, -0.85, 0, 0.14, 1].map((v) => quantizeToLevel(v, 3, MID_RISE_ROUND))).toEqual([0, 0, 1, 4, 4, 7]);
+  });
+
+  it("has a mid-tread level at zero", () => {
+    expect(quantizeToLevel(0, 3, MID_TREAD_ROUND)).toBe(4);
+    expect(levelToValue(4, 3, MID_TREAD_ROUND)).toBe(0);
+    expect([-0.13, -0.12, 0.12, 0.13].map((v) => quantizeToLevel(v, 3, MID_TREAD_ROUND))).toEqual([3, 4, 4, 5]);
+  });
+
+  it("hard clips out-of-range input to the end levels", () => {
+    expect(quantizeToLevel(-5, 8)).toBe(0);
+    expect(quantizeToLevel(5, 8)).toBe(255);
+    expect(quantizeToLevel(1, 4, MID_TREAD_ROUND)).toBe(15);
+  });
+
+  it("wraps out-of-range input around to the opposite end", () => {
+    const wrap: QuantizerSettings = { ...MID_TREAD_ROUND, overflow: "wrap" };
+    // 1.25 wraps to -0.75
+    expect(quantizeToLevel(1.25, 3, wrap)).toBe(quantizeToLevel(-0.75, 3, wrap));
+    expect(quantizeToLevel(-1.25, 3, wrap)).toBe(quantizeToLevel(0.75, 3, wrap));
+  });
+
+  it("soft clips towards, but never past, full scale", () => {
+    const soft: QuantizerSettings = { ...MID_RISE_ROUND, overflow: "soft-clip" };
+    expect(quantizeToLevel(0.25, 8, soft)).toBe(quantizeToLevel(0.25, 8, MID_RISE_ROUND));
+    expect(quantizeValue(1, 8, soft)).toBeLessThan(1);
+    expect(quantizeToLevel(100, 8, soft)).toBe(255);
+  });
+
+  it("keeps 32-bit levels exact", () => {
+    expect(quantizeToLevel(-1, 32)).toBe(0);
+    expect(quantizeToLevel(1, 32)).toBe(2 ** 32 - 1);
+    expect(quantizeToLevel(0, 32, MID_TREAD_ROUND)).toBe(2 ** 31);
+  });
+});
+
+describe("levelToValue", () => {
+  it("spans full scale for mid-rise", () => {
+    expect(levelToValue(0, 3)).toBe(-1);
+    expect(levelToValue(7, 3)).toBe(1);
+    expect(levelToValue(1, 3)).toBeCloseTo(-1 + 2 / 7, 12);
+  });
+
+  it("uses two's complement steps of 2/N for mid-tread", () => {
+    expect(levelToValue(0, 3, MID_TREAD_ROUND)).toBe(-1);
+    expect(levelToValue(7, 3, MID_TREAD_ROUND)).toBe(0.75);
+  });
+
+  it("returns silence for a single-level quantizer", () => {
+    expect(levelToValue(0, 0)).toBe(0);
+  });
+
+  // Truncating levels sit exactly on a decision threshold, which companding's
+  // compress/expand round trip can miss by an ulp, so those are left out
+  const invertible = QUANTIZERS.filter((settings) => settings.rounding === "round" || settings.companding === "none");
+
+  it.each(invertible)("is inverted by quantizeToLevel (%o)", (settings) => {
+    for (const bitDepth of [1, 3, 8]) {
+      for (let level = 0; level < getQuantizationLevels(bitDepth); level++) {
+        expect(quantizeToLevel(levelToValue(level, bitDepth, settings), bitDepth, settings)).toBe(level);
+      }
+    }
+  });
+});
+
+describe("quantizeValue", () => {
+  it("stays within half a step when rounding and a whole step when truncating", () => {
+    for (const settings of [MID_RISE_ROUND, MID_TREAD_ROUND, DEFAULT_QUANTIZER_SETTINGS]) {
+      const lsb = getLsbSize(6, settings.characteristic);
+      const bound = settings.rounding === "round" ? lsb / 2 : lsb;
+      // Mid-tread tops out one step below +1, so the ramp stops short of it
+      ramp(1001, -1, 1 - lsb).forEach((value) => {
+        expect(Math.abs(quantizeValue(value, 6, settings) - value)).toBeLessThanOrEqual(bound + 1e-9);
+      });
+    }
+  });
+});
+
+describe("quantize, encode and decode", () => {
+  const samples = sample((t) => 0.9 * Math.sin(2 * Math.PI * 3 * t), 100, 100);
+
+  it("matches per-sample quantization without dither or noise shaping", () => {
+    const quantized = quantize(samples, 5, MID_TREAD_ROUND);
+    samples.forEach((value, i) => expect(quantized[i]).toBe(Math.fround(quantizeValue(value, 5, MID_TREAD_ROUND))));
+  });
+
+  it.each(QUANTIZERS)("decodes encoded levels to the quantized values (%o)", (settings) => {
+    expect(decode(encode(samples, 5, settings), 5, settings)).toEqual(quantize(samples, 5, settings));
+  });
+
+  it("wraps companded input instead of clipping it", () => {
+    const wrap: QuantizerSettings = { ...MID_TREAD_ROUND, companding: "mu-law", overflow: "wrap" };
+    // 1.5 wraps to -0.5 rather than clipping at full scale
+    expect(encode(Float32Array.of(1.5), 8, wrap)[0]).toBe(quantizeToLevel(-0.5, 8, wrap));
+    expect(quantize(Float32Array.of(1.5), 8, wrap)[0]).toBeLessThan(0);
+  });
+
+  it("agrees between encode and quantize with dither and noise shaping", () => {
+    const settings: QuantizerSettings = { ...MID_TREAD_ROUND, dither: "tpdf", noiseShaping: "second-order" };
+    expect(decode(encode(samples, 8, settings, 40), 8, settings)).toEqual(quantize(samples, 8, settings, 40));
+  });
+
+  it("seeds dither from the absolute sample index", () => {
+    const settings: QuantizerSettings = { ...MID_TREAD_ROUND, dither: "rpdf" };
+    const whole = encode(samples, 8, settings);
+    expect(encode(samples, 8, settings)).toEqual(whole);
+    // Dither alone has no state, so a slice quantizes like the same samples in the whole run
+    expect(encode(samples.subarray(30), 8, settings, 30)).toEqual(whole.subarray(30));
+    expect(encode(samples.subarray(30), 8, settings, 0)).not.toEqual(whole.subarray(30));
+  });
+
+  it("pushes noise-shaped error towards high frequencies", () => {
+    const settings: QuantizerSettings = { ...MID_TREAD_ROUND, dither: "tpdf" };
+    const input = sample(() => 0.123, 1000, 4096);
+    const lowBandError = (quantized: Float32Array) => {
+      // Error averaged over 32 samples keeps only its low-frequency part
+      let power = 0;
+      for (let i = 0; i + 32 <= quantized.length; i += 32) {
+        let sum = 0;
+        for (let k = i; k < i + 32; k++) sum += quantized[k] - input[k];
+        power += (sum / 32) ** 2;
+      }
+      return power;
+    };
+    const flat = lowBandError(quantize(input, 6, settings));
+    const shaped = lowBandError(quantize(input, 6, { ...settings, noiseShaping: "second-order" }));
+    expect(shaped).toBeLessThan(flat / 4);
+  });
+});
+
+describe("sample", () => {
+  it("evaluates the signal at absolute sample times", () => {
+    expect(Array.from(sample((t) => t, 4, 3, 2))).toEqual([0.5, 0.75, 1]);
+  });
+
+  it("rounds to float32", () => {
+    expect(sample(() => 0.1, 1, 1)[0]).toBe(Math.fround(0.1));
+  });
+
+  it("returns no samples for a non-positive count", () => {
+    expect(sample((t) => t, 8, 0).length).toBe(0);
+    expect(sample((t) => t, 8, -3).length).toBe(0);
+  });
+});
+
+describe("reconstruct", () => {
+  const samples = sample((t) => Math.sin(2 * Math.PI * 2 * t), 64, 256);
+
+  it("holds the previous sample in zero-order-hold mode", () => {
+    expect(reconstruct(samples, 10.9, "hold")).toBe(samples[10]);
+    expect(reconstruct(samples, -3, "hold")).toBe(samples[0]);
+    expect(reconstruct(samples, 1000, "hold")).toBe(samples[255]);
+  });
+
+  it("passes through the samples at integer positions", () => {
+    for (const position of [40, 100, 200]) {
+      expect(reconstruct(samples, position)).toBeCloseTo(samples[position], 9);
+    }
+  });
+
+  it("interpolates a band-limited signal between samples", () => {
+    for (const position of [64.5, 100.25, 180.75]) {
+      expect(reconstruct(samples, position)).toBeCloseTo(Math.sin((2 * Math.PI * 2 * position) / 64), 2);
+    }
+  });
+
+  it("returns silence without samples", () => {
+    expect(reconstruct(new Float32Array(0), 0)).toBe(0);
+  });
+});
+
+describe("measureQuantization", () => {
+  it("comes close to the theoretical SQNR for a full-scale sine", () => {
+    const samples = sample((t) => Math.sin(2 * Math.PI * 997 * t), 48000, 48000);
+    const metrics = measureQuantization(samples, quantize(samples, 12, MID_TREAD_ROUND), 12, 48000, 997);
+    expect(metrics.sqnrDb).toBeCloseTo(metrics.theoreticalSqnrDb, 0);
+    expect(metrics.enob).toBeCloseTo(12, 0);
+  });
+
+  it("has no SQNR or ENOB for silence", () => {
+    const silence = new Float32Array(64);
+    const metrics = measureQuantization(silence, quantize(silence, 8, MID_TREAD_ROUND), 8, 1000, null);
+    expect(metrics.sqnrDb).toBeNull();
+    expect(metrics.enob).toBeNull();
+    expect(metrics.rmsError).toBe(0);
+  });
+
+  it("reports an infinite SQNR when quantization is exact", () => {
+    const samples = Float32Array.of(0.5, -0.25, 0);
+    const metrics = measureQuantization(samples, samples, 8, 1000, null);
+    expect(metrics.sqnrDb).toBe(Infinity);
+    expect(metrics.peakError).toBe(0);
+  });
+});
@@ -0,0 +1,734 @@
+import {
+  CompandingLaw,
+  DitherType,
+  HarmonicPartial,
+  InputSettings,
+  MAX_HARMONIC_NUMBER,
+  NoiseShapingType,
+  OverflowMode,
+  PeriodicWaveformType,
+  QuantizerCharacteristic,
+  QuantizerSettings,
+  ReconstructionMode,
+  WaveformType,
+  generateWaveform,
+  isPeriodicWaveform,
+} from "./audio";
+
+// Default half-width of the windowed sinc kernel, in samples
+export const SINC_RADIUS = 32;
+
+export function getQuantizationLevels(bitDepth: number): number {
+  return Math.pow(2, bitDepth);
+}
+
+export const DEFAULT_QUANTIZER_SETTINGS: QuantizerSettings = {
+  characteristic: 'mid-rise',
+  rounding: 'floor',
+  companding: 'none',
+  dither: 'none',
+  noiseShaping: 'none',
+  overflow: 'hard-clip',
+};
+
+// Soft clipping leaves the input untouched up to this magnitude
+const SOFT_CLIP_KNEE = 0.5;
+
+/**
+ * Brings an input value into the converter's [-1, 1] range. Soft clipping
+ * bends smoothly from the knee towards full scale, so it also compresses loud
+ * in-range values; wrapping leaves in-range values alone.
+ */
+export function applyOverflow(value: number, mode: OverflowMode): number {
+  switch (mode) {
+    case 'soft-clip': {
+      const magnitude = Math.abs(value);
+      if (magnitude <= SOFT_CLIP_KNEE) return value;
+      const headroom = 1 - SOFT_CLIP_KNEE;
+      return Math.sign(value) * (SOFT_CLIP_KNEE + headroom * Math.tanh((magnitude - SOFT_CLIP_KNEE) / headroom));
+    }
+    case 'wrap':
+      return value > 1 || value < -1 ? ((((value + 1) % 2) + 2) % 2) - 1 : value;
+    default:
+      return Math.max(-1, Math.min(1, value));
+  }
+}
+
+// G.711 companding constants
+const MU = 255;
+const A = 87.6;
+
+/**
+ * Compressor curve of a companding law, mapping [-1, 1] onto [-1, 1].
+ * Quantizing the compressed value uniformly gives finer steps near zero.
+ */
+export function compress(value: number, law: CompandingLaw): number {
+  const magnitude = Math.min(1, Math.abs(value));
+  switch (law) {
+    case 'mu-law':
+      return Math.sign(value) * (Math.log1p(MU * magnitude) / Math.log1p(MU));
+    case 'a-law':
+      return Math.sign(value) * (magnitude < 1 / A
+        ? (A * magnitude) / (1 + Math.log(A))
+        : (1 + Math.log(A * magnitude)) / (1 + Math.log(A)));
+    default:
+      return value;
+  }
+}
+
+// Inverse of compress()
+export function expand(value: number, law: CompandingLaw): number {
+  const magnitude = Math.min(1, Math.abs(value));
+  switch (law) {
+    case 'mu-law':
+      return Math.sign(value) * (Math.pow(1 + MU, magnitude) - 1) / MU;
+    case 'a-law':
+      return Math.sign(value) * (magnitude < 1 / (1 + Math.log(A))
+        ? (magnitude * (1 + Math.log(A))) / A
+        : Math.exp(magnitude * (1 + Math.log(A)) - 1) / A);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Spacing between adjacent output levels of the uniform quantizer, in
+ * full-scale units. For companded quantizers this is the step in the
+ * compressed domain.
+ */
+export function getLsbSize(bitDepth: number, characteristic: QuantizerCharacteristic = 'mid-rise'): number {
+  const quantizationLevels = getQuantizationLevels(bitDepth);
+  // Mid-rise levels span [-1, 1]; mid-tread levels are two's complement steps of 2/N
+  return characteristic === 'mid-tread' ? 2 / quantizationLevels : 2 / (quantizationLevels - 1);
+}
+
+/**
+ * Maps a sample in [-1, 1] to its quantization level index. The default is
+ * uniform mid-rise truncation. Out-of-range values are first brought into
+ * range as the overflow mode says, and clamp to the first/last level.
+ */
+export function quantizeToLevel(
+  value: number,
+  bitDepth: number,
+  settings: QuantizerSettings = DEFAULT_QUANTIZER_SETTINGS,
+): number {
+  const quantizationLevels = getQuantizationLevels(bitDepth);
+  const round = settings.rounding === 'round' ? Math.round : Math.floor;
+  const compressed = compress(applyOverflow(value, settings.overflow), settings.companding);
+
+  let quantized: number;
+  if (settings.characteristic === 'mid-tread') {
+    quantized = round((compressed * quantizationLevels) / 2) + quantizationLevels / 2;
+  } else if (settings.rounding === 'round') {
+    quantized = Math.round(((compressed + 1) / 2) * (quantizationLevels - 1));
+  } else {
+    quantized = Math.floor(((compressed + 1) / 2) * quantizationLevels);
+  }
+  return Math.max(0, Math.min(quantizationLevels - 1, quantized));
+}
+
+// Maps a level index back to an amplitude in [-1, 1]
+export function levelToValue(
+  level: number,
+  bitDepth: number,
+  settings: QuantizerSettings = DEFAULT_QUANTIZER_SETTINGS,
+): number {
+  const quantizationLevels = getQuantizationLevels(bitDepth);
+  if (quantizationLevels <= 1) return 0;
+
+  const uniform = settings.characteristic === 'mid-tread'
+    ? ((level - quantizationLevels / 2) * 2) / quantizationLevels
+    : (level / (quantizationLevels - 1)) * 2 - 1;
+  return expand(uniform, settings.companding);
+}
+
+export function quantizeValue(
+  value: number,
+  bitDepth: number,
+  settings: QuantizerSettings = DEFAULT_QUANTIZER_SETTINGS,
+): number {
+  return levelToValue(quantizeToLevel(value, bitDepth, settings), bitDepth, settings);
+}
+
+/**
+ * Input amplitudes at which the quantizer moves from one level to the next,
+ * in ascending order (one fewer than the number of levels).
+ */
+export function getDecisionThresholds(bitDepth: number, settings: QuantizerSettings = DEFAULT_QUANTIZER_SETTINGS): number[] {
+  const quantizationLevels = getQuantizationLevels(bitDepth);
+  const thresholds: number[] = [];
+
+  for (let level = 1; level < quantizationLevels; level++) {
+    // Where `level` begins, in the compressed domain
+    let start: number;
+    if (settings.characteristic === 'mid-tread') {
+      const offset = settings.rounding === 'round' ? 0.5 : 0;
+      start = ((level - quantizationLevels / 2 - offset) * 2) / quantizationLevels;
+    } else if (settings.rounding === 'round') {
+      start = ((level - 0.5) / (quantizationLevels - 1)) * 2 - 1;
+    } else {
+      start = (level / quantizationLevels) * 2 - 1;
+    }
+    thresholds.push(expand(start, settings.companding));
+  }
+
+  return thresholds;
+}
+
+// A continuous-time signal, evaluated at time `t` in seconds
+export type Signal = (t: number) => number;
+
+// Linear amplitude factor of a gain in dB
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20);
+}
+
+/**
+ * The signal as it reaches the converter: shifted by the input phase (of
+ * `frequency`, when the source is generated), scaled and offset.
+ */
+export function inputSignal(signal: Signal, settings: InputSettings, frequency: number | null): Signal {
+  const gain = dbToGain(settings.gainDb);
+  const delay = frequency ? settings.phase / (2 * Math.PI * frequency) : 0;
+  return (t) => gain * signal(t + delay) + settings.dcOffset;
+}
+
+// `harmonics` are the partials of a 'custom' waveform, as entered by the user
+export function waveformSignal(frequency: number, type: PeriodicWaveformType, harmonics: HarmonicPartial[] = []): Signal {
+  const partials = type === 'custom' ? normalizeHarmonics(harmonics) : [];
+  return (t) => generateWaveform(t, frequency, type, partials);
+}
+
+/**
+ * Scales custom partials down so their sum peaks at full scale, measured over
+ * one period. Quieter sets are left as they are, so a lone half-amplitude
+ * partial stays at half amplitude. Playback builds its PeriodicWave from the
+ * same partials, so what is heard matches what is drawn.
+ */
+export function normalizeHarmonics(harmonics: HarmonicPartial[]): HarmonicPartial[] {
+  if (harmonics.length === 0) return harmonics;
+
+  const highest = Math.max(...harmonics.map((partial) => partial.harmonic));
+  // Enough points per cycle of the highest partial to find the peak closely
+  const points = Math.max(1024, highest * 32);
+  let peak = 0;
+  for (let i = 0; i < points; i++) {
+    peak = Math.max(peak, Math.abs(generateWaveform(i / points, 1, 'custom', harmonics)));
+  }
+
+  if (peak <= 1) return harmonics;
+  return harmonics.map((partial) => ({ ...partial, amplitude: partial.amplitude / peak }));
+}
+
+// Wavetable points per cycle of the highest partial of a band-limited waveform
+const BAND_LIMITED_POINTS_PER_CYCLE = 16;
+const MIN_WAVETABLE_SIZE = 1024;
+
+function wavetableSize(partials: HarmonicPartial[]): number {
+  const highest = Math.max(0, ...partials.map((partial) => partial.harmonic));
+  return Math.max(MIN_WAVETABLE_SIZE, Math.pow(2, Math.ceil(Math.log2(Math.max(1, highest * BAND_LIMITED_POINTS_PER_CYCLE)))));
+}
+
+// One period of the sum of `partials`, synthesized with an inverse FFT
+function synthesizePeriod(partials: HarmonicPartial[], size: number): Float64Array {
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  // a·sin(nθ + φ) is the bin pair X[n] = (a/2)(sin φ − i·cos φ) and X[N − n] = conj(X[n])
+  partials.forEach(({ harmonic, amplitude, phase }) => {
+    re[harmonic] += (amplitude / 2) * Math.sin(phase);
+    im[harmonic] -= (amplitude / 2) * Math.cos(phase);
+    re[size - harmonic] += (amplitude / 2) * Math.sin(phase);
+    im[size - harmonic] += (amplitude / 2) * Math.cos(phase);
+  });
+
+  // A forward FFT of the spectrum is the period played backwards
+  fft(re, im);
+  const period = new Float64Array(size);
+  for (let k = 0; k < size; k++) {
+    period[k] = re[(size - k) % size];
+  }
+  return period;
+}
+
+/**
+ * Partials of the waveform at or below `maxFrequency`, scaled down if the
+ * truncated series overshoots full scale (as a band-limited square's Gibbs
+ * ripple does), so the waveform is never clipped back into harmonics.
+ */
+export function bandLimitedHarmonics(
+  type: WaveformType,
+  frequency: number,
+  maxFrequency: number,
+  harmonics: HarmonicPartial[] = [],
+): HarmonicPartial[] {
+  const partials = getHarmonics(type, frequency, maxFrequency, harmonics);
+  const peak = synthesizePeriod(partials, wavetableSize(partials)).reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  return peak > 1 ? partials.map((partial) => ({ ...partial, amplitude: partial.amplitude / peak })) : partials;
+}
+
+/**
+ * The waveform with every partial above `maxFrequency` removed, so sampling it
+ * at twice that rate cannot alias. One period is kept as a wavetable and read
+ * back with linear interpolation.
+ */
+export function bandLimitedSignal(
+  frequency: number,
+  type: WaveformType,
+  maxFrequency: number,
+  harmonics: HarmonicPartial[] = [],
+): Signal {
+  const partials = bandLimitedHarmonics(type, frequency, maxFrequency, harmonics);
+  const size = wavetableSize(partials);
+  const table = synthesizePeriod(partials, size);
+
+  return (t) => {
+    const position = (((t * frequency) % 1) + 1) % 1 * size;
+    const index = Math.floor(position);
+    const frac = position - index;
+    return table[index] + (table[(index + 1) % size] - table[index]) * frac;
+  };
+}
+
+/**
+ * Wraps recorded PCM data as a looping continuous signal, linearly
+ * interpolating between the recorded samples.
+ */
+export function bufferSignal(data: Float32Array, bufferSampleRate: number): Signal {
+  return (t) => {
+    if (data.length === 0) return 0;
+
+    const position = ((t * bufferSampleRate) % data.length + data.length) % data.length;
+    const index = Math.floor(position);
+    const frac = position - index;
+    const next = data[(index + 1) % data.length];
+    return data[index] + (next - data[index]) * frac;
+  };
+}
+
+/**
+ * Samples a signal at `sampleRate`, starting at sample `startIndex`.
+ */
+export function sample(
+  signal: Signal,
+  sampleRate: number,
+  count: number,
+  startIndex: number = 0,
+): Float32Array {
+  const samples = new Float32Array(Math.max(0, count));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = signal((startIndex + i) / sampleRate);
+  }
+  return samples;
+}
+
+/**
+ * Error feedback filter coefficients h[k], applied as v[n] = x[n] - Σ h[k] e[n-1-k].
+ * The Wannamaker and Lipshitz curves are the published 44.1 kHz psychoacoustic designs.
+ */
+export const NOISE_SHAPING_COEFFICIENTS: Record<NoiseShapingType, number[]> = {
+  'none': [],
+  'first-order': [1],
+  'second-order': [2, -1],
+  'wannamaker-3': [1.623, -0.982, 0.109],
+  'lipshitz-5': [2.033, -2.165, 1.959, -1.59, 0.6149],
+};
+
+// Deterministic uniform value in [0, 1) for a sample index, so redraws don't flicker
+export function hashUniform(index: number, salt: number): number {
+  let h = Math.imul((index | 0) ^ Math.imul(salt, 0x9e3779b9), 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+}
+
+/**
+ * Dither for sample `index`, in LSBs. RPDF spans ±½ LSB, TPDF ±1 LSB and
+ * Gaussian has a standard deviation of ½ LSB.
+ */
+export function ditherNoise(type: DitherType, index: number): number {
+  switch (type) {
+    case 'rpdf':
+      return hashUniform(index, 1) - 0.5;
+    case 'tpdf':
+      return hashUniform(index, 1) - hashUniform(index, 2);
+    case 'gaussian': {
+      // Box-Muller transform
+      const u1 = Math.max(hashUniform(index, 1), 1e-12);
+      const u2 = hashUniform(index, 2);
+      return 0.5 * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Sequential quantizer applying dither and error-feedback noise shaping.
+ * Noise shaping carries state from one sample to the next, so samples must be
+ * fed in order; `index` is the absolute sample number used to seed dither.
+ */
+export class Quantizer {
+  private readonly coefficients: number[];
+  private readonly errorHistory: number[];
+  // Decision step of the quantizer in [-1, 1] units (compressed units when companding)
+  private readonly step: number;
+  // Overflow is handled before dither, so dither pushing past full scale only clips
+  private readonly levelSettings: QuantizerSettings;
+
+  constructor(private readonly bitDepth: number, private readonly settings: QuantizerSettings = DEFAULT_QUANTIZER_SETTINGS) {
+    this.coefficients = NOISE_SHAPING_COEFFICIENTS[settings.noiseShaping];
+    this.errorHistory = new Array(this.coefficients.length).fill(0);
+    this.step = 2 / getQuantizationLevels(bitDepth);
+    this.levelSettings = { ...settings, overflow: 'hard-clip' };
+  }
+
+  quantizeToLevel(value: number, index: number): number {
+    let shaped = value;
+    for (let k = 0; k < this.coefficients.length; k++) {
+      shaped -= this.coefficients[k] * this.errorHistory[k];
+    }
+
+    // Overflow comes first, as compress() would otherwise clamp away wrap and soft clip
+    const { companding, overflow } = this.settings;
+    const inRange = applyOverflow(shaped, overflow);
+    // Dither is scaled to the local step size by adding it before expansion
+    const dithered = expand(compress(inRange, companding) + ditherNoise(this.settings.dither, index) * this.step, companding);
+    const level = quantizeToLevel(dithered, this.bitDepth, this.levelSettings);
+
+    if (this.coefficients.length > 0) {
+      // Clamp the fed-back error so high-order shapers stay stable when the output clips
+      const error = Math.max(-this.step, Math.min(this.step, levelToValue(level, this.bitDepth, this.settings) - inRange));
+      this.errorHistory.pop();
+      this.errorHistory.unshift(error);
+    }
+
+    return level;
+  }
+
+  quantizeValue(value: number, index: number): number {
+    return levelToValue(this.quantizeToLevel(value, index), this.bitDepth, this.settings);
+  }
+}
+
+/**
+ * Quantizes every sample, returning the reconstructed amplitudes.
+ * `startIndex` is the absolute index of samples[0], used to seed dither.
+ */
+export function quantize(
+  samples: Float32Array,
+  bitDepth: number,
+  settings: QuantizerSettings = DEFAULT_QUANTIZER_SETTINGS,
+  startIndex: number = 0,
+): Float32Array {
+  const quantizer = new Quantizer(bitDepth, settings);
+  const quantized = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    quantized[i] = quantizer.quantizeValue(samples[i], startIndex + i);
+  }
+  return quantized;
+}
+
+// Quantizes every sample, returning the unsigned level codes
+export function encode(
+  samples: Float32Array,
+  bitDepth: number,
+  settings: QuantizerSettings = DEFAULT_QUANTIZER_SETTINGS,
+  startIndex: number = 0,
+): Uint32Array {
+  const quantizer = new Quantizer(bitDepth, settings);
+  const codes = new Uint32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    codes[i] = quantizer.quantizeToLevel(samples[i], startIndex + i);
+  }
+  return codes;
+}
+
+export function decode(
+  codes: Uint32Array,
+  bitDepth: number,
+  settings: QuantizerSettings = DEFAULT_QUANTIZER_SETTINGS,
+): Float32Array {
+  const values = new Float32Array(codes.length);
+  for (let i = 0; i < codes.length; i++) {
+    values[i] = levelToValue(codes[i], bitDepth, settings);
+  }
+  return values;
+}
+
+function sinc(x: number): number {
+  if (Math.abs(x) < 1e-10) return 1.0;
+  const piX = Math.PI * x;
+  return Math.sin(piX) / piX;
+}
+
+// Windowed sinc function (Lanczos window)
+function lanczosWindow(x: number, a: number): number {
+  if (Math.abs(x) > a) return 0;
+  return sinc(x / a);
+}
+
+/**
+ * Evaluates the continuous signal at fractional sample index `position`.
+ * 'sinc' sums a Lanczos-windowed sinc kernel over `radius` neighbours on each
+ * side; 'hold' returns the most recent sample (zero-order hold).
+ */
+export function reconstruct(
+  samples: Float32Array,
+  position: number,
+  mode: ReconstructionMode = 'sinc',
+  radius: number = SINC_RADIUS,
+): number {
+  if (samples.length === 0) return 0;
+
+  const held = Math.max(0, Math.min(samples.length - 1, Math.floor(position)));
+  if (mode === 'hold') return samples[held];
+
+  const first = Math.max(0, Math.ceil(position - radius));
+  const last = Math.min(samples.length - 1, Math.floor(position + radius));
+
+  let interpolatedSample = 0;
+  for (let k = first; k <= last; k++) {
+    const x = position - k;
+    interpolatedSample += samples[k] * sinc(x) * lanczosWindow(x, radius);
+  }
+  return interpolatedSample;
+}
+
+/**
+ * Fourier series of the ideal waveforms drawn by generateWaveform(),
+ * truncated to partials at or below `maxFrequency`. A 'custom' waveform's
+ * series is its own normalized `harmonics`.
+ */
+export function getHarmonics(
+  type: WaveformType,
+  frequency: number,
+  maxFrequency: number,
+  harmonics: HarmonicPartial[] = [],
+): HarmonicPartial[] {
+  const partials: HarmonicPartial[] = [];
+  const maxHarmonic = Math.floor(maxFrequency / frequency);
+
+  // Test signals are not built from a harmonic series
+  if (!isPeriodicWaveform(type)) return partials;
+
+  if (type === 'custom') {
+    return normalizeHarmonics(harmonics)
+      .filter((partial) => partial.harmonic <= maxHarmonic && partial.amplitude > 0)
+      .sort((a, b) => a.harmonic - b.harmonic);
+  }
+
+  for (let n = 1; n <= maxHarmonic; n++) {
+    switch (type) {
+      case 'sine':
+        if (n === 1) partials.push({ harmonic: 1, amplitude: 1, phase: 0 });
+        break;
+      case 'square':
+        if (n % 2 === 1) partials.push({ harmonic: n, amplitude: 4 / (Math.PI * n), phase: 0 });
+        break;
+      case 'triangle':
+        if (n % 2 === 1) {
+          partials.push({ harmonic: n, amplitude: 8 / (Math.PI * Math.PI * n * n), phase: (n - 1) % 4 === 0 ? 0 : Math.PI });
+        }
+        break;
+      case 'sawtooth':
+        partials.push({ harmonic: n, amplitude: 2 / (Math.PI * n), phase: Math.PI });
+        break;
+    }
+  }
+
+  return partials;
+}
+
+/**
+ * Lowest partial of the ideal waveform above `nyquist`, the first to alias
+ * when it is sampled, or null when every partial is below Nyquist.
+ */
+export function firstAliasedHarmonic(
+  type: WaveformType,
+  frequency: number,
+  nyquist: number,
+  harmonics: HarmonicPartial[] = [],
+): HarmonicPartial | null {
+  // The built-in series never skip more than one harmonic; custom ones stop at MAX_HARMONIC_NUMBER
+  const maxFrequency = Math.max(nyquist + 2 * frequency, MAX_HARMONIC_NUMBER * frequency);
+  return getHarmonics(type, frequency, maxFrequency, harmonics)
+    .find((partial) => partial.harmonic * frequency > nyquist) ?? null;
+}
+
+/**
+ * Frequency at which a component at `frequency` appears after sampling at
+ * `sampleRate`, folded into [0, sampleRate / 2].
+ */
+export function aliasFrequency(frequency: number, sampleRate: number): number {
+  const folded = ((frequency % sampleRate) + sampleRate) % sampleRate;
+  return folded > sampleRate / 2 ? sampleRate - folded : folded;
+}
+
+/**
+ * In-place iterative radix-2 FFT. Both arrays must share a power-of-two length.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const evenIdx = start + k;
+        const oddIdx = evenIdx + size / 2;
+        const tRe = re[oddIdx] * curRe - im[oddIdx] * curIm;
+        const tIm = re[oddIdx] * curIm + im[oddIdx] * curRe;
+        re[oddIdx] = re[evenIdx] - tRe;
+        im[oddIdx] = im[evenIdx] - tIm;
+        re[evenIdx] += tRe;
+        im[evenIdx] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * Hann-windowed magnitude spectrum in dBFS for bins 0..N/2, where N is the
+ * (power-of-two) length of `samples`. A full-scale sine peaks near 0 dB.
+ */
+export function magnitudeSpectrum(samples: Float32Array): Float32Array {
+  const n = samples.length;
+  const re = new Float64Array(n);
+  const im = new Float64Array(n);
+
+  let windowSum = 0;
+  for (let i = 0; i < n; i++) {
+    const w = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n);
+    re[i] = samples[i] * w;
+    windowSum += w;
+  }
+
+  fft(re, im);
+
+  const magnitudes = new Float32Array(n / 2 + 1);
+  for (let k = 0; k <= n / 2; k++) {
+    // Single-sided amplitude, corrected for the window's coherent gain
+    const amplitude = (Math.hypot(re[k], im[k]) * (k === 0 || k === n / 2 ? 1 : 2)) / windowSum;
+    magnitudes[k] = 20 * Math.log10(Math.max(amplitude, 1e-12));
+  }
+  return magnitudes;
+}
+
+export interface QuantizationMetrics {
+  // Measured signal-to-quantization-noise ratio, null for a silent input
+  sqnrDb: number | null;
+  // Ideal full-scale sine SQNR, 6.02N + 1.76 dB
+  theoreticalSqnrDb: number;
+  // Errors in units of full scale ([-1, 1] spans 2)
+  rmsError: number;
+  peakError: number;
+  // Total harmonic distortion of the quantized output, null without a known fundamental
+  thdPercent: number | null;
+  // Effective number of bits implied by the measured SQNR
+  enob: number | null;
+}
+
+// Harmonics 2..N are included in the THD measurement
+const THD_MAX_HARMONIC = 10;
+
+export function theoreticalSqnr(bitDepth: number): number {
+  return 6.02 * bitDepth + 1.76;
+}
+
+/**
+ * Amplitude of the component at `frequency`, from a Hann-windowed single-bin DFT.
+ */
+export function toneAmplitude(samples: Float32Array, frequency: number, sampleRate: number): number {
+  const n = samples.length;
+  const omega = (2 * Math.PI * frequency) / sampleRate;
+  let re = 0;
+  let im = 0;
+  let windowSum = 0;
+
+  for (let i = 0; i < n; i++) {
+    const w = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n);
+    re += samples[i] * w * Math.cos(omega * i);
+    im -= samples[i] * w * Math.sin(omega * i);
+    windowSum += w;
+  }
+
+  if (windowSum === 0) return 0;
+  // DC and Nyquist components are not split across positive/negative frequencies
+  const isEdge = frequency === 0 || Math.abs(frequency - sampleRate / 2) < 1e-9;
+  return (Math.hypot(re, im) * (isEdge ? 1 : 2)) / windowSum;
+}
+
+/**
+ * Compares samples with their quantized counterparts. `fundamental` is the
+ * tone's frequency in Hz; harmonics that alias onto the fundamental are skipped.
+ */
+export function measureQuantization(
+  samples: Float32Array,
+  quantized: Float32Array,
+  bitDepth: number,
+  sampleRate: number,
+  fundamental: number | null,
+): QuantizationMetrics {
+  let signalPower = 0;
+  let errorPower = 0;
+  let peakError = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const error = quantized[i] - samples[i];
+    signalPower += samples[i] * samples[i];
+    errorPower += error * error;
+    peakError = Math.max(peakError, Math.abs(error));
+  }
+
+  const count = Math.max(1, samples.length);
+  // Silence has no SQNR; an exact quantization of a signal has an infinite one
+  const sqnrDb = signalPower > 0 ? 10 * Math.log10(signalPower / errorPower) : null;
+
+  let thdPercent: number | null = null;
+  if (fundamental !== null && samples.length > 0) {
+    const fundamentalAt = aliasFrequency(fundamental, sampleRate);
+    const fundamentalAmplitude = toneAmplitude(quantized, fundamentalAt, sampleRate);
+    let harmonicPower = 0;
+
+    for (let n = 2; n <= THD_MAX_HARMONIC; n++) {
+      const harmonicAt = aliasFrequency(n * fundamental, sampleRate);
+      if (Math.abs(harmonicAt - fundamentalAt) < 1e-6) continue;
+      harmonicPower += Math.pow(toneAmplitude(quantized, harmonicAt, sampleRate), 2);
+    }
+
+    if (fundamentalAmplitude > 0) {
+      thdPercent = (Math.sqrt(harmonicPower) / fundamentalAmplitude) * 100;
+    }
+  }
+
+  return {
+    sqnrDb,
+    theoreticalSqnrDb: theoreticalSqnr(bitDepth),
+    rmsError: Math.sqrt(errorPower / count),
+    peakError,
+    thdPercent,
+    enob: sqnrDb === null ? null : (sqnrDb - 1.76) / 6.02,
+  };
+}
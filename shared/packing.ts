@@ -0,0 +1,88 @@
+import { ByteOrder, WordSize } from "./audio";
+import { getContainerBits } from "./wav";
+
+export interface PackedStream {
+  bytes: Uint8Array;
+  // First and last byte (inclusive) holding each sample's bits
+  sampleBytes: Array<[number, number]>;
+}
+
+/**
+ * Bits per word actually used for `bitDepth`: a word too small to hold the
+ * sample falls back to the smallest standard container, and packed streams
+ * use exactly `bitDepth` bits.
+ */
+export function getWordBits(bitDepth: number, wordSize: WordSize): number {
+  if (wordSize === 'packed') return bitDepth;
+  return Math.max(wordSize, getContainerBits(bitDepth));
+}
+
+/**
+ * Samples per group whose packed bits end on a byte boundary, e.g. 2 for
+ * 12-bit and 8 for 1-, 3-, 5- or 7-bit samples.
+ */
+export function getAlignmentSamples(bitDepth: number, wordSize: WordSize): number {
+  const wordBits = getWordBits(bitDepth, wordSize);
+  let samples = 1;
+  while ((samples * wordBits) % 8 !== 0) samples++;
+  return samples;
+}
+
+/**
+ * Lays out codewords (bit patterns `bitDepth` wide, see toCodeword()) as they
+ * would sit in memory or a file.
+ *
+ * Word formats left-justify each codeword in its word, as WAV does, and write
+ * the bytes in `byteOrder`. Packed big-endian streams are written MSB first;
+ * packed little-endian streams start with each sample's LSB in the lowest bit
+ * of the byte, so the bytes read back as one little-endian integer.
+ */
+export function packCodewords(
+  codewords: ArrayLike<number>,
+  bitDepth: number,
+  wordSize: WordSize,
+  byteOrder: ByteOrder,
+): PackedStream {
+  const wordBits = getWordBits(bitDepth, wordSize);
+  const bytes = new Uint8Array(Math.ceil((codewords.length * wordBits) / 8));
+  const sampleBytes: Array<[number, number]> = [];
+
+  if (wordSize !== 'packed') {
+    const bytesPerWord = wordBits / 8;
+    // Multiplication rather than << so 32-bit codewords don't overflow
+    const justify = Math.pow(2, wordBits - bitDepth);
+
+    for (let i = 0; i < codewords.length; i++) {
+      const word = codewords[i] * justify;
+      const first = i * bytesPerWord;
+      for (let b = 0; b < bytesPerWord; b++) {
+        // b counts bytes from the least significant end
+        const byte = Math.floor(word / Math.pow(2, 8 * b)) % 256;
+        bytes[byteOrder === 'little-endian' ? first + b : first + bytesPerWord - 1 - b] = byte;
+      }
+      sampleBytes.push([first, first + bytesPerWord - 1]);
+    }
+
+    return { bytes, sampleBytes };
+  }
+
+  for (let i = 0; i < codewords.length; i++) {
+    const firstBit = i * bitDepth;
+    for (let k = 0; k < bitDepth; k++) {
+      // Bit k of the codeword, counting from the LSB
+      const bit = Math.floor(codewords[i] / Math.pow(2, k)) % 2;
+      if (!bit) continue;
+
+      if (byteOrder === 'little-endian') {
+        const position = firstBit + k;
+        bytes[position >> 3] |= 1 << (position & 7);
+      } else {
+        const position = firstBit + bitDepth - 1 - k;
+        bytes[position >> 3] |= 0x80 >> (position & 7);
+      }
+    }
+    sampleBytes.push([firstBit >> 3, (firstBit + bitDepth - 1) >> 3]);
+  }
+
+  return { bytes, sampleBytes };
+}
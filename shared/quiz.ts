@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { aliasFrequency, getQuantizationLevels, theoreticalSqnr } from "./dsp";
+
+const COMMON_SAMPLE_RATES = [8000, 11025, 16000, 22050, 32000, 44100, 48000];
+
+export const quizQuestionSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('alias-frequency'), frequency: z.number().positive(), sampleRate: z.number().positive() }),
+  z.object({ kind: z.literal('quantization-levels'), bitDepth: z.number().int().min(1).max(32) }),
+  z.object({
+    kind: z.literal('data-rate'),
+    sampleRate: z.number().positive(),
+    bitDepth: z.number().int().min(1).max(32),
+    channels: z.number().int().min(1).max(8),
+  }),
+  z.object({ kind: z.literal('nyquist-frequency'), sampleRate: z.number().positive() }),
+  z.object({ kind: z.literal('theoretical-sqnr'), bitDepth: z.number().int().min(1).max(32) }),
+]);
+
+export type QuizQuestion = z.infer<typeof quizQuestionSchema>;
+export type QuizQuestionKind = QuizQuestion['kind'];
+
+// Questions per quiz, issued by the server for signed-in users
+export const QUIZ_LENGTH = 5;
+
+export const submitQuizSchema = z.object({
+  quizId: z.string().min(1),
+  // One per issued question, in order; null when the question was skipped
+  answers: z.array(z.number().nullable()).min(1).max(50),
+});
+
+export type SubmitQuiz = z.infer<typeof submitQuizSchema>;
+
+export interface GradedAnswer {
+  question: QuizQuestion;
+  answer: number | null;
+  correctAnswer: number;
+  correct: boolean;
+}
+
+const QUESTION_KINDS: QuizQuestionKind[] = [
+  'alias-frequency',
+  'quantization-levels',
+  'data-rate',
+  'nyquist-frequency',
+  'theoretical-sqnr',
+];
+
+// Answers within max(absolute, relative × correct) of the exact value count
+const TOLERANCES: Record<QuizQuestionKind, { absolute: number; relative: number }> = {
+  'alias-frequency': { absolute: 1, relative: 0 },
+  'quantization-levels': { absolute: 0, relative: 0 },
+  'data-rate': { absolute: 0.5, relative: 0.005 },
+  'nyquist-frequency': { absolute: 1, relative: 0 },
+  'theoretical-sqnr': { absolute: 0.5, relative: 0 },
+};
+
+function pick<T>(values: readonly T[], random: () => number): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function randomInt(min: number, max: number, random: () => number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+export function generateQuestion(kind: QuizQuestionKind, random: () => number = Math.random): QuizQuestion {
+  switch (kind) {
+    case 'alias-frequency': {
+      const sampleRate = pick([8000, 11025, 16000, 22050], random);
+      // Above Nyquist and below 1.5 × fs, so the tone always aliases, in 100 Hz steps
+      const frequency = randomInt(Math.ceil(sampleRate / 200) + 1, Math.floor((sampleRate * 1.5) / 100), random) * 100;
+      return { kind, frequency, sampleRate };
+    }
+    case 'quantization-levels':
+      return { kind, bitDepth: randomInt(1, 16, random) };
+    case 'data-rate':
+      return { kind, sampleRate: pick(COMMON_SAMPLE_RATES, random), bitDepth: pick([8, 16, 24], random), channels: pick([1, 2], random) };
+    case 'nyquist-frequency':
+      return { kind, sampleRate: pick(COMMON_SAMPLE_RATES, random) };
+    case 'theoretical-sqnr':
+      return { kind, bitDepth: randomInt(4, 24, random) };
+  }
+}
+
+/**
+ * A quiz cycling through every kind of question in random order.
+ */
+export function generateQuiz(count: number, random: () => number = Math.random): QuizQuestion[] {
+  const kinds = [...QUESTION_KINDS];
+  for (let i = kinds.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [kinds[i], kinds[j]] = [kinds[j], kinds[i]];
+  }
+  return Array.from({ length: count }, (_, i) => generateQuestion(kinds[i % kinds.length], random));
+}
+
+export function getCorrectAnswer(question: QuizQuestion): number {
+  switch (question.kind) {
+    case 'alias-frequency':
+      return aliasFrequency(question.frequency, question.sampleRate);
+    case 'quantization-levels':
+      return getQuantizationLevels(question.bitDepth);
+    case 'data-rate':
+      // kbit/s
+      return (question.sampleRate * question.bitDepth * question.channels) / 1000;
+    case 'nyquist-frequency':
+      return question.sampleRate / 2;
+    case 'theoretical-sqnr':
+      return theoreticalSqnr(question.bitDepth);
+  }
+}
+
+export function gradeAnswer(question: QuizQuestion, answer: number | null): GradedAnswer {
+  const correctAnswer = getCorrectAnswer(question);
+  const { absolute, relative } = TOLERANCES[question.kind];
+  const correct = answer !== null
+    && Number.isFinite(answer)
+    && Math.abs(answer - correctAnswer) <= Math.max(absolute, relative * Math.abs(correctAnswer));
+  return { question, answer, correctAnswer, correct };
+}
+
+export interface QuestionText {
+  prompt: string;
+  unit: string;
+  // How the correct answer is worked out
+  explanation: string;
+}
+
+export function describeQuestion(question: QuizQuestion): QuestionText {
+  const answer = getCorrectAnswer(question);
+  switch (question.kind) {
+    case 'alias-frequency':
+      return {
+        prompt: `A ${question.frequency.toLocaleString()} Hz sine is sampled at ${question.sampleRate.toLocaleString()} Hz. At what frequency does it appear?`,
+        unit: 'Hz',
+        explanation: `Above the ${(question.sampleRate / 2).toLocaleString()} Hz Nyquist frequency the tone folds back: |${question.frequency} − ${question.sampleRate}| = ${answer.toLocaleString()} Hz.`,
+      };
+    case 'quantization-levels':
+      return {
+        prompt: `How many quantization levels does a ${question.bitDepth}-bit converter have?`,
+        unit: 'levels',
+        explanation: `2^${question.bitDepth} = ${answer.toLocaleString()}.`,
+      };
+    case 'data-rate':
+      return {
+        prompt: `What is the data rate of ${question.channels === 1 ? 'mono' : 'stereo'} ${question.bitDepth}-bit audio at ${question.sampleRate.toLocaleString()} Hz?`,
+        unit: 'kbit/s',
+        explanation: `${question.sampleRate.toLocaleString()} × ${question.bitDepth} × ${question.channels} = ${answer.toLocaleString()} kbit/s.`,
+      };
+    case 'nyquist-frequency':
+      return {
+        prompt: `What is the highest frequency that can be represented at a ${question.sampleRate.toLocaleString()} Hz sample rate?`,
+        unit: 'Hz',
+        explanation: `The Nyquist frequency is half the sample rate: ${answer.toLocaleString()} Hz.`,
+      };
+    case 'theoretical-sqnr':
+      return {
+        prompt: `What is the theoretical SQNR of a full-scale sine quantized to ${question.bitDepth} bits?`,
+        unit: 'dB',
+        explanation: `6.02 × ${question.bitDepth} + 1.76 = ${answer.toFixed(2)} dB.`,
+      };
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_QUANTIZER_SETTINGS } from "./dsp";
+import { insertPresetSchema, insertUserSchema, type ShareableSettings } from "./schema";
+
+const SETTINGS: ShareableSettings = {
+  sampleRate: 8000,
+  bitDepth: 8,
+  quantizerSettings: DEFAULT_QUANTIZER_SETTINGS,
+  frequency: 440,
+  waveformType: "sine",
+  harmonics: [{ harmonic: 1, amplitude: 1, phase: 0 }],
+  oscillatorMode: "naive",
+  testSignal: { sweepEndFrequency: 20000, sweepDuration: 1, secondFrequency: 550, dcLevel: 0.5 },
+  input: { gainDb: 0, dcOffset: 0, phase: 0 },
+  zoomLevel: 100,
+  timeOffset: 0,
+  reconstructionMode: "sinc",
+  binaryFormat: "offset-binary",
+  wordSize: 16,
+  byteOrder: "little-endian",
+  comparison: { enabled: false, editing: "A", listening: "A", layout: "side-by-side" },
+  configB: { sampleRate: 8000, bitDepth: 8, quantizerSettings: DEFAULT_QUANTIZER_SETTINGS },
+};
+
+describe("insertPresetSchema", () => {
+  it("accepts sample rates across the whole slider range", () => {
+    for (const sampleRate of [0.1, 44100, 96000]) {
+      const preset = { name: "Hi-res", settings: { ...SETTINGS, sampleRate, configB: { ...SETTINGS.configB, sampleRate } } };
+      expect(insertPresetSchema.safeParse(preset).success).toBe(true);
+    }
+  });
+
+  it("rejects sample rates above the slider range", () => {
+    expect(insertPresetSchema.safeParse({ name: "Too high", settings: { ...SETTINGS, sampleRate: 96001 } }).success).toBe(false);
+  });
+
+  it("trims names and rejects blank ones", () => {
+    expect(insertPresetSchema.parse({ name: "  Lo-fi  ", settings: SETTINGS }).name).toBe("Lo-fi");
+    expect(insertPresetSchema.safeParse({ name: "   ", settings: SETTINGS }).success).toBe(false);
+  });
+});
+
+describe("insertUserSchema", () => {
+  it("drops a role chosen by the client", () => {
+    const parsed = insertUserSchema.parse({ username: "ada", password: "correct horse", role: "teacher" });
+    expect(parsed).toEqual({ username: "ada", password: "correct horse" });
+  });
+});
@@ -1,67 +1,177 @@
+import { sql } from "drizzle-orm";
+import { integer, jsonb, pgTable, text, timestamp, unique, varchar } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  MAX_HARMONICS,
+  MAX_HARMONIC_NUMBER,
+  MAX_INPUT_GAIN_DB,
+  MAX_SAMPLE_RATE,
+  MIN_INPUT_GAIN_DB,
+} from "./audio";
+import type { GradedAnswer, QuizQuestion } from "./quiz";
 
-export type WaveformType = 'sine' | 'square' | 'triangle' | 'sawtooth';
-
-export interface AudioSettings {
-  sampleRate: number;
-  bitDepth: number;
-  frequency: number;
-  isPlaying: boolean;
-  waveformType: WaveformType;
-}
+const quantizerSettingsSchema = z.object({
+  characteristic: z.enum(['mid-rise', 'mid-tread']),
+  rounding: z.enum(['floor', 'round']),
+  companding: z.enum(['none', 'mu-law', 'a-law']),
+  dither: z.enum(['none', 'rpdf', 'tpdf', 'gaussian']),
+  noiseShaping: z.enum(['none', 'first-order', 'second-order', 'wannamaker-3', 'lipshitz-5']),
+  overflow: z.enum(['hard-clip', 'soft-clip', 'wrap']),
+});
 
-export interface QuantizationInfo {
-  levels: number;
-  nyquistFrequency: number;
-  estimatedSize: number;
-}
+const harmonicPartialSchema = z.object({
+  harmonic: z.number().int().min(1).max(MAX_HARMONIC_NUMBER),
+  amplitude: z.number().min(0).max(1),
+  phase: z.number().min(0).max(2 * Math.PI),
+});
 
-export const audioSettingsSchema = z.object({
-  sampleRate: z.number().min(0.1).max(88200),
+const samplingConfigSchema = z.object({
+  sampleRate: z.number().min(0.1).max(MAX_SAMPLE_RATE),
   bitDepth: z.number().int().min(1).max(32),
+  quantizerSettings: quantizerSettingsSchema,
+});
+
+export const audioSettingsSchema = samplingConfigSchema.extend({
   frequency: z.number().min(20).max(20000),
   isPlaying: z.boolean(),
-  waveformType: z.enum(['sine', 'square', 'triangle', 'sawtooth']),
+  waveformType: z.enum([
+    'sine',
+    'square',
+    'triangle',
+    'sawtooth',
+    'custom',
+    'white-noise',
+    'pink-noise',
+    'linear-chirp',
+    'log-chirp',
+    'impulse',
+    'dc',
+    'two-tone',
+  ]),
+  // Partials of the 'custom' waveform
+  harmonics: z.array(harmonicPartialSchema).max(MAX_HARMONICS),
+  oscillatorMode: z.enum(['naive', 'band-limited']),
+  testSignal: z.object({
+    sweepEndFrequency: z.number().min(20).max(20000),
+    sweepDuration: z.number().min(0.1).max(10),
+    secondFrequency: z.number().min(20).max(20000),
+    dcLevel: z.number().min(-1).max(1),
+  }),
+  input: z.object({
+    gainDb: z.number().min(MIN_INPUT_GAIN_DB).max(MAX_INPUT_GAIN_DB),
+    dcOffset: z.number().min(-1).max(1),
+    phase: z.number().min(0).max(2 * Math.PI),
+  }),
+  zoomLevel: z.number().min(1).max(100),
+  timeOffset: z.number().min(0),
+  reconstructionMode: z.enum(['sinc', 'hold']),
+  binaryFormat: z.enum(['offset-binary', 'twos-complement', 'sign-magnitude', 'gray', 'hex']),
+  wordSize: z.union([z.literal(8), z.literal(16), z.literal(24), z.literal(32), z.literal('packed')]),
+  byteOrder: z.enum(['little-endian', 'big-endian']),
+  comparison: z.object({
+    enabled: z.boolean(),
+    editing: z.enum(['A', 'B']),
+    listening: z.enum(['A', 'B']),
+    layout: z.enum(['side-by-side', 'overlay']),
+  }),
+  // The top-level sampling fields are configuration A
+  configB: samplingConfigSchema,
 });
 
 export type AudioSettingsType = z.infer<typeof audioSettingsSchema>;
 
-export function generateWaveform(t: number, frequency: number, type: WaveformType): number {
-  const phase = 2 * Math.PI * frequency * t;
-
-  switch (type) {
-    case 'sine':
-      return Math.sin(phase);
-    case 'square':
-      return Math.sin(phase) >= 0 ? 1 : -1;
-    case 'triangle':
-      return (2 / Math.PI) * Math.asin(Math.sin(phase));
-    case 'sawtooth':
-      return 2 * ((frequency * t) % 1) - 1;
-    default:
-      return Math.sin(phase);
-  }
-}
-
-export function generateStaticWaveformPath(type: WaveformType, width: number, height: number, periods: number = 2): string {
-  const centerY = height / 2;
-  const amplitude = height * 0.35;
-  const points: string[] = [];
-
-  const samplesPerPeriod = 100;
-  const totalSamples = samplesPerPeriod * periods;
-
-  for (let i = 0; i <= totalSamples; i++) {
-    const x = (i / totalSamples) * width;
-    const t = (i / samplesPerPeriod);
-    const y = centerY - generateWaveform(t, 1, type) * amplitude;
-
-    if (i === 0) {
-      points.push(`M ${x} ${y}`);
-    } else {
-      points.push(`L ${x} ${y}`);
-    }
-  }
-
-  return points.join(' ');
-}
+// Settings restored from a link or preset; playback always starts stopped
+export const shareableSettingsSchema = audioSettingsSchema.omit({ isPlaying: true });
+
+export type ShareableSettings = z.infer<typeof shareableSettingsSchema>;
+
+export const USER_ROLES = ['student', 'teacher'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  // scrypt hash and salt, never sent to the client
+  password: text("password").notNull(),
+  role: text("role").$type<UserRole>().notNull().default("student"),
+});
+
+// Public registration; the server assigns the role
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+}).extend({
+  username: z.string().trim().min(3).max(32),
+  password: z.string().min(8).max(128),
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const presets = pgTable("presets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Presets saved while signed out have no owner and are shared by all anonymous visitors
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  settings: jsonb("settings").$type<ShareableSettings>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertPresetSchema = z.object({
+  name: z.string().trim().min(1).max(64),
+  settings: shareableSettingsSchema,
+});
+
+export type InsertPreset = z.infer<typeof insertPresetSchema>;
+export type Preset = typeof presets.$inferSelect;
+
+// Progress of one user through one lesson; lessons themselves are defined in code
+export const lessonProgress = pgTable("lesson_progress", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  lessonId: text("lesson_id").notNull(),
+  completedSteps: integer("completed_steps").notNull().default(0),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.userId, table.lessonId)]);
+
+export const insertLessonProgressSchema = z.object({
+  lessonId: z.string().min(1),
+  completedSteps: z.number().int().min(0),
+  completed: z.boolean(),
+});
+
+export type InsertLessonProgress = z.infer<typeof insertLessonProgressSchema>;
+export type LessonProgress = typeof lessonProgress.$inferSelect;
+
+// Questions issued to a user, kept until they're answered so grading never relies on the client's copy
+export const quizzes = pgTable("quizzes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  questions: jsonb("questions").$type<QuizQuestion[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type InsertQuiz = Pick<typeof quizzes.$inferInsert, "questions">;
+export type Quiz = typeof quizzes.$inferSelect;
+
+export const quizAttempts = pgTable("quiz_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  score: integer("score").notNull(),
+  total: integer("total").notNull(),
+  // Graded on the server against the questions it issued
+  answers: jsonb("answers").$type<GradedAnswer[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type InsertQuizAttempt = Pick<typeof quizAttempts.$inferInsert, "score" | "total" | "answers">;
+export type QuizAttempt = typeof quizAttempts.$inferSelect;
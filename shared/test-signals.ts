@@ -0,0 +1,97 @@
+import { TestSignalSettings, TestSignalType, WaveformType } from "./audio";
+import { Signal, hashUniform } from "./dsp";
+
+// Noise takes a new value at this rate, high enough to stand in for analog noise
+const NOISE_RATE = 96000;
+// Voss-McCartney rows, each holding its value twice as long as the one before
+const PINK_NOISE_ROWS = 16;
+// Keeps the summed rows within full scale about 99.7% of the time (3σ)
+const PINK_NOISE_SCALE = 1 / (3 * Math.sqrt(PINK_NOISE_ROWS / 3));
+// Hash salts, distinct from the ones dither uses
+const WHITE_NOISE_SALT = 11;
+const PINK_NOISE_SALT = 20;
+
+function whiteNoise(): Signal {
+  return (t) => 2 * hashUniform(Math.floor(t * NOISE_RATE), WHITE_NOISE_SALT) - 1;
+}
+
+// Voss-McCartney: each row is white noise held for 2^row ticks, so the sum falls off at 3 dB/octave
+function pinkNoise(): Signal {
+  return (t) => {
+    const tick = Math.floor(t * NOISE_RATE);
+    let sum = 0;
+    for (let row = 0; row < PINK_NOISE_ROWS; row++) {
+      sum += 2 * hashUniform(Math.floor(tick / Math.pow(2, row)), PINK_NOISE_SALT + row) - 1;
+    }
+    return Math.max(-1, Math.min(1, sum * PINK_NOISE_SCALE));
+  };
+}
+
+/**
+ * Sine sweeping from `startFrequency` to `endFrequency` over `duration`
+ * seconds, then starting over. Logarithmic sweeps spend equal time per octave.
+ */
+function chirp(startFrequency: number, endFrequency: number, duration: number, logarithmic: boolean): Signal {
+  const ratio = endFrequency / startFrequency;
+  return (t) => {
+    const elapsed = ((t % duration) + duration) % duration;
+    // Phase is the integral of the instantaneous frequency
+    const phase = logarithmic && ratio !== 1
+      ? (startFrequency * duration * (Math.pow(ratio, elapsed / duration) - 1)) / Math.log(ratio)
+      : startFrequency * elapsed + ((endFrequency - startFrequency) * elapsed * elapsed) / (2 * duration);
+    return Math.sin(2 * Math.PI * phase);
+  };
+}
+
+/**
+ * Unit impulses at `frequency`, each one sample period of `sampleRate` wide so
+ * that sampling at that rate catches exactly one sample per impulse.
+ */
+function impulseTrain(frequency: number, sampleRate: number): Signal {
+  return (t) => {
+    const cycles = t * frequency;
+    // The small bias keeps a sample landing exactly on an impulse from rounding to just before it
+    const sinceImpulse = (cycles - Math.floor(cycles + 1e-9)) / frequency;
+    return sinceImpulse < 1 / sampleRate - 1e-12 ? 1 : 0;
+  };
+}
+
+// Two equal sines, as in an intermodulation distortion test
+function twoTone(firstFrequency: number, secondFrequency: number): Signal {
+  return (t) => 0.5 * Math.sin(2 * Math.PI * firstFrequency * t) + 0.5 * Math.sin(2 * Math.PI * secondFrequency * t);
+}
+
+/**
+ * A converter test signal. `frequency` is the chirp's starting frequency, the
+ * impulse rate or the first of the two tones; `sampleRate` is the rate the
+ * signal is about to be sampled at.
+ */
+export function testSignal(type: TestSignalType, frequency: number, settings: TestSignalSettings, sampleRate: number): Signal {
+  switch (type) {
+    case 'white-noise':
+      return whiteNoise();
+    case 'pink-noise':
+      return pinkNoise();
+    case 'linear-chirp':
+      return chirp(frequency, settings.sweepEndFrequency, settings.sweepDuration, false);
+    case 'log-chirp':
+      return chirp(frequency, settings.sweepEndFrequency, settings.sweepDuration, true);
+    case 'impulse':
+      return impulseTrain(frequency, sampleRate);
+    case 'dc':
+      return () => settings.dcLevel;
+    case 'two-tone':
+      return twoTone(frequency, settings.secondFrequency);
+  }
+}
+
+/**
+ * Length of audio that loops back to its start without a jump: a whole sweep
+ * for chirps, otherwise about a second of whole periods of `frequency`.
+ */
+export function getLoopDuration(type: WaveformType, frequency: number, settings: TestSignalSettings): number {
+  if (type === 'linear-chirp' || type === 'log-chirp') {
+    return settings.sweepDuration;
+  }
+  return Math.max(1, Math.round(frequency)) / frequency;
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWav, getContainerBits } from './wav';
+
+interface ParsedWav {
+  riffSize: number;
+  formatTag: number;
+  channels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  containerBits: number;
+  validBits: number;
+  channelMask?: number;
+  subFormat?: number[];
+  samples: number[];
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+}
+
+// Reads back what encodeWav wrote, walking the chunks rather than assuming offsets
+function parseWav(buffer: ArrayBuffer): ParsedWav {
+  const view = new DataView(buffer);
+  expect(readAscii(view, 0, 4)).toBe('RIFF');
+  expect(readAscii(view, 8, 4)).toBe('WAVE');
+
+  let fmt: Omit<ParsedWav, 'riffSize' | 'samples'> | undefined;
+  let samples: number[] | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readAscii(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      const formatTag = view.getUint16(body, true);
+      const containerBits = view.getUint16(body + 14, true);
+      fmt = {
+        formatTag,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        byteRate: view.getUint32(body + 8, true),
+        blockAlign: view.getUint16(body + 12, true),
+        containerBits,
+        validBits: containerBits,
+      };
+      if (formatTag === 0xfffe) {
+        expect(size).toBe(40);
+        expect(view.getUint16(body + 16, true)).toBe(22);
+        fmt.validBits = view.getUint16(body + 18, true);
+        fmt.channelMask = view.getUint32(body + 20, true);
+        fmt.subFormat = Array.from({ length: 16 }, (_, i) => view.getUint8(body + 24 + i));
+      } else {
+        expect(size).toBe(16);
+      }
+    } else if (id === 'data') {
+      expect(fmt).toBeDefined();
+      const bytes = fmt!.blockAlign;
+      samples = [];
+      for (let i = body; i < body + size; i += bytes) {
+        switch (fmt!.containerBits) {
+          case 8:
+            samples.push(view.getUint8(i));
+            break;
+          case 16:
+            samples.push(view.getInt16(i, true));
+            break;
+          case 24:
+            samples.push(((view.getUint8(i + 2) << 24) | (view.getUint8(i + 1) << 16) | (view.getUint8(i) << 8)) >> 8);
+            break;
+          case 32:
+            samples.push(view.getInt32(i, true));
+            break;
+        }
+      }
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  expect(fmt).toBeDefined();
+  expect(samples).toBeDefined();
+  return { riffSize: view.getUint32(4, true), ...fmt!, samples: samples! };
+}
+
+// Lowest, just above lowest, midpoint and highest codes for a depth
+function edgeCodes(bitDepth: number): Uint32Array {
+  const top = 2 ** bitDepth - 1;
+  return Uint32Array.from([0, 1, 2 ** (bitDepth - 1), top]);
+}
+
+describe('getContainerBits', () => {
+  it('rounds up to a whole number of bytes', () => {
+    expect([1, 8, 9, 12, 16, 17, 20, 24, 25, 32].map(getContainerBits)).toEqual([8, 8, 16, 16, 16, 24, 24, 24, 32, 32]);
+  });
+});
+
+describe('encodeWav', () => {
+  it.each([8, 12, 16, 20, 24, 32])('round-trips %i-bit codes', (bitDepth) => {
+    const codes = edgeCodes(bitDepth);
+    const buffer = encodeWav(codes, 44100, bitDepth);
+    const wav = parseWav(buffer);
+
+    const containerBits = getContainerBits(bitDepth);
+    const bytesPerSample = containerBits / 8;
+    const extensible = bitDepth !== containerBits || containerBits > 16;
+
+    expect(wav.riffSize).toBe(buffer.byteLength - 8);
+    expect(wav.formatTag).toBe(extensible ? 0xfffe : 0x0001);
+    expect(wav.channels).toBe(1);
+    expect(wav.sampleRate).toBe(44100);
+    expect(wav.byteRate).toBe(44100 * bytesPerSample);
+    expect(wav.blockAlign).toBe(bytesPerSample);
+    expect(wav.containerBits).toBe(containerBits);
+    expect(wav.validBits).toBe(bitDepth);
+    if (extensible) {
+      expect(wav.channelMask).toBe(0x4);
+      // KSDATAFORMAT_SUBTYPE_PCM
+      expect(wav.subFormat).toEqual([
+        0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71,
+      ]);
+    }
+
+    // Left-justified, so the low container bits are zero and shifting back recovers the code
+    const justify = 2 ** (containerBits - bitDepth);
+    const signedOffset = containerBits === 8 ? 0 : 2 ** (containerBits - 1);
+    expect(wav.samples).toHaveLength(codes.length);
+    wav.samples.forEach((stored, i) => {
+      expect((stored + signedOffset) % justify).toBe(0);
+      expect((stored + signedOffset) / justify).toBe(codes[i]);
+    });
+  });
+
+  it('stores full scale at the container limits', () => {
+    expect(parseWav(encodeWav(edgeCodes(12), 8000, 12)).samples).toEqual([-32768, -32768 + 16, 0, 32767 - 15]);
+    expect(parseWav(encodeWav(edgeCodes(24), 8000, 24)).samples).toEqual([-8388608, -8388607, 0, 8388607]);
+    expect(parseWav(encodeWav(edgeCodes(32), 8000, 32)).samples).toEqual([-(2 ** 31), -(2 ** 31) + 1, 0, 2 ** 31 - 1]);
+  });
+
+  it('pads odd-sized data to a word boundary', () => {
+    const buffer = encodeWav(Uint32Array.from([0, 128, 255]), 8000, 8);
+    const view = new DataView(buffer);
+    expect(view.getUint32(40, true)).toBe(3);
+    expect(buffer.byteLength).toBe(44 + 4);
+    expect(parseWav(buffer).samples).toEqual([0, 128, 255]);
+  });
+});
@@ -0,0 +1,98 @@
+// WAVE_FORMAT_PCM and WAVE_FORMAT_EXTENSIBLE format tags
+const FORMAT_PCM = 0x0001;
+const FORMAT_EXTENSIBLE = 0xfffe;
+// Mono speaker mask (SPEAKER_FRONT_CENTER)
+const SPEAKER_FRONT_CENTER = 0x4;
+// KSDATAFORMAT_SUBTYPE_PCM, 00000001-0000-0010-8000-00aa00389b71
+const PCM_SUBFORMAT_GUID = [0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
+/**
+ * Smallest standard PCM container (8, 16, 24 or 32 bits) that can hold `bitDepth` bits.
+ */
+export function getContainerBits(bitDepth: number): number {
+  return Math.min(32, Math.max(8, Math.ceil(bitDepth / 8) * 8));
+}
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Writes mono quantization level codes (0 .. 2^bitDepth - 1, as produced by
+ * encode()) as a PCM WAV file.
+ *
+ * Codes are left-justified in their container as the WAV spec requires, so a
+ * 12-bit file stores 16-bit words whose low 4 bits are zero. 8-bit containers
+ * are unsigned; wider containers are two's complement. Depths that are not
+ * 8 or 16 bits use WAVE_FORMAT_EXTENSIBLE to record the valid bit count.
+ */
+export function encodeWav(codes: Uint32Array, sampleRate: number, bitDepth: number): ArrayBuffer {
+  const containerBits = getContainerBits(bitDepth);
+  const bytesPerSample = containerBits / 8;
+  const extensible = bitDepth !== containerBits || containerBits > 16;
+  const fmtChunkSize = extensible ? 40 : 16;
+  const dataSize = codes.length * bytesPerSample;
+  // RIFF chunks are word-aligned, so odd-sized data gets a pad byte
+  const paddedDataSize = dataSize + (dataSize % 2);
+  const headerSize = 12 + (8 + fmtChunkSize) + 8;
+
+  const buffer = new ArrayBuffer(headerSize + paddedDataSize);
+  const view = new DataView(buffer);
+  const rate = Math.round(sampleRate);
+
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeAscii(view, 8, 'WAVE');
+
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, fmtChunkSize, true);
+  view.setUint16(20, extensible ? FORMAT_EXTENSIBLE : FORMAT_PCM, true);
+  view.setUint16(22, 1, true); // channels
+  view.setUint32(24, rate, true);
+  view.setUint32(28, rate * bytesPerSample, true); // byte rate
+  view.setUint16(32, bytesPerSample, true); // block align
+  view.setUint16(34, containerBits, true);
+
+  if (extensible) {
+    view.setUint16(36, 22, true); // extension size
+    view.setUint16(38, bitDepth, true); // valid bits per sample
+    view.setUint32(40, SPEAKER_FRONT_CENTER, true);
+    PCM_SUBFORMAT_GUID.forEach((byte, i) => view.setUint8(44 + i, byte));
+  }
+
+  const dataOffset = headerSize - 8;
+  writeAscii(view, dataOffset, 'data');
+  view.setUint32(dataOffset + 4, dataSize, true);
+
+  // Multiplication rather than << so 32-bit codes don't overflow
+  const justify = Math.pow(2, containerBits - bitDepth);
+  const signedOffset = Math.pow(2, containerBits - 1);
+
+  for (let i = 0; i < codes.length; i++) {
+    const offset = headerSize + i * bytesPerSample;
+    const justified = codes[i] * justify;
+
+    switch (containerBits) {
+      case 8:
+        view.setUint8(offset, justified);
+        break;
+      case 16:
+        view.setInt16(offset, justified - signedOffset, true);
+        break;
+      case 24: {
+        const value = justified - signedOffset;
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setUint8(offset + 2, (value >> 16) & 0xff);
+        break;
+      }
+      case 32:
+        view.setInt32(offset, justified - signedOffset, true);
+        break;
+    }
+  }
+
+  return buffer;
+}